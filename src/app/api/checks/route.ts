@@ -0,0 +1,26 @@
+import { publishCheckRun } from '@/utils/checkRun';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { prLink, fullFile } = body;
+    
+    if (!prLink) {
+      return NextResponse.json(
+        { message: 'PR link is required' },
+        { status: 400 }
+      );
+    }
+    
+    const checkRun = await publishCheckRun(prLink, { fullFile: Boolean(fullFile) });
+    return NextResponse.json(checkRun);
+    
+  } catch (error: any) {
+    console.error('Error in check run API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while publishing the check run' },
+      { status: 500 }
+    );
+  }
+}
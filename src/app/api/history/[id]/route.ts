@@ -0,0 +1,25 @@
+import { getHistoryResult } from '@/utils/history';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await getHistoryResult(id);
+    
+    if (!result) {
+      return NextResponse.json(
+        { message: 'History entry not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(result);
+    
+  } catch (error: any) {
+    console.error('Error in history API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while reading the history' },
+      { status: 500 }
+    );
+  }
+}
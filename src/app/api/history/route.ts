@@ -0,0 +1,30 @@
+import { listHistory } from '@/utils/history';
+import type { HistoryKind } from '@/utils/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const kind = searchParams.get('kind');
+    
+    if (kind && kind !== 'pr' && kind !== 'scan') {
+      return NextResponse.json(
+        { message: 'Kind must be pr or scan' },
+        { status: 400 }
+      );
+    }
+    
+    const entries = await listHistory({
+      repo: searchParams.get('repo') ?? undefined,
+      kind: (kind as HistoryKind | null) ?? undefined
+    });
+    return NextResponse.json({ entries });
+    
+  } catch (error: any) {
+    console.error('Error in history API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while reading the history' },
+      { status: 500 }
+    );
+  }
+}
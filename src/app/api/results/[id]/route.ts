@@ -0,0 +1,25 @@
+import { getStoredResult } from '@/utils/resultStore';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const stored = await getStoredResult(id);
+    
+    if (!stored) {
+      return NextResponse.json(
+        { message: 'Result not found, it may have expired' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(stored);
+  
+  } catch (error: any) {
+    console.error('Error in results API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while reading the result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { getTokenStatus } from '@/utils/github';
+import { postPrReview } from '@/utils/prReview';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { prLink, fullFile } = body;
+    
+    if (!prLink) {
+      return NextResponse.json(
+        { message: 'PR link is required' },
+        { status: 400 }
+      );
+    }
+    
+    const { canPostReviews } = await getTokenStatus();
+    if (!canPostReviews) {
+      return NextResponse.json(
+        { message: 'The server GitHub token is missing or has no write scope, so reviews cannot be posted' },
+        { status: 403 }
+      );
+    }
+    
+    const summary = await postPrReview(prLink, { fullFile: Boolean(fullFile) });
+    return NextResponse.json(summary);
+    
+  } catch (error: any) {
+    console.error('Error in review API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while posting the review' },
+      { status: 500 }
+    );
+  }
+}
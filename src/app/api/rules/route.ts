@@ -0,0 +1,9 @@
+import { getRuleInfos, MIGRATION_CONFIG } from '@/utils/rules';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  return NextResponse.json({
+    rules: getRuleInfos(),
+    config: MIGRATION_CONFIG
+  });
+}
@@ -0,0 +1,28 @@
+import { recordScan } from '@/utils/history';
+import { scanRepository } from '@/utils/repoScan';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { repo, ref } = body;
+    
+    if (!repo) {
+      return NextResponse.json(
+        { message: 'Repository is required' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await scanRepository(repo, ref || 'main');
+    await recordScan(result);
+    return NextResponse.json(result);
+    
+  } catch (error: any) {
+    console.error('Error in scan API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while scanning the repository' },
+      { status: 500 }
+    );
+  }
+}
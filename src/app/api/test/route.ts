@@ -1,10 +1,13 @@
+import { getTokenStatus } from '@/utils/github';
 import { NextResponse } from 'next/server';
 
 export async function GET() {
+  const tokenStatus = await getTokenStatus();
+  
   return NextResponse.json({
     success: true,
     message: 'API is working',
     timestamp: new Date().toISOString(),
-    hasGithubToken: Boolean(process.env.GITHUB_TOKEN)
+    ...tokenStatus
   });
 } 
\ No newline at end of file
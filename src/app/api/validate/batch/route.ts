@@ -0,0 +1,113 @@
+import { findPullRequests, MAX_BATCH_SIZE, validatePrBatch } from '@/utils/batchValidator';
+import { recordValidation } from '@/utils/history';
+import type { BatchQuery, ValidationOptions } from '@/utils/types';
+import { NextRequest } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  const encoder = new TextEncoder();
+  
+  try {
+    const body = await request.json();
+    const { prLinks, query, fullFile } = body;
+    
+    if (!(Array.isArray(prLinks) && prLinks.length > 0) && !query?.repo) {
+      return new Response(
+        encoder.encode(JSON.stringify({ error: 'A list of PR links or a query with a repository is required' })),
+        { status: 400 }
+      );
+    }
+    
+    // Create a TransformStream for streaming the response
+    const stream = new TransformStream();
+    const writer = stream.writable.getWriter();
+    
+    // Start processing in the background
+    processBatchValidation(prLinks, query, { fullFile: Boolean(fullFile) }, writer);
+    
+    // Return the readable stream to the client
+    return new Response(stream.readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  
+  } catch (error: any) {
+    console.error('Error in batch validation API:', error);
+    return new Response(
+      encoder.encode(JSON.stringify({ 
+        error: error.message || 'An error occurred during validation' 
+      })),
+      { status: 500 }
+    );
+  }
+}
+
+async function processBatchValidation(
+  prLinks: string[] | undefined,
+  query: BatchQuery | undefined,
+  options: ValidationOptions,
+  writer: WritableStreamDefaultWriter
+) {
+  const encoder = new TextEncoder();
+  const send = (event: object) => writer.write(encoder.encode(JSON.stringify(event) + '\n'));
+  
+  try {
+    send({ 
+      type: 'init', 
+      message: prLinks?.length ? 'Starting batch validation...' : `Finding open PRs in ${query!.repo}...` 
+    });
+    
+    // An explicit list takes precedence over the query
+    const matched = [...new Set(
+      prLinks?.length
+        ? prLinks.map(link => link.trim()).filter(Boolean)
+        : await findPullRequests(query!)
+    )];
+    
+    if (prLinks?.length && matched.length > MAX_BATCH_SIZE) {
+      throw new Error(`A batch can validate at most ${MAX_BATCH_SIZE} PRs, got ${matched.length}`);
+    }
+    
+    // Queries can match any number of PRs, only the most recently created ones are validated
+    const links = matched.slice(0, MAX_BATCH_SIZE);
+    
+    // Send the PRs to validate, and how many the query matched
+    send({ 
+      type: 'batch_start',
+      prLinks: links,
+      matched: matched.length
+    });
+    
+    const recordings: Promise<unknown>[] = [];
+    const report = await validatePrBatch(links, options, {
+      started: prLink => send({ type: 'pr_started', prLink }),
+      finished: (result, validation) => {
+        send({ type: 'pr_complete', result });
+        if (validation) {
+          recordings.push(recordValidation(validation).catch(error => {
+            console.error('Error recording batch validation:', error.message);
+          }));
+        }
+      }
+    });
+    await Promise.all(recordings);
+    
+    // Send completion event
+    send({ 
+      type: 'complete',
+      data: report
+    });
+    
+    writer.close();
+  
+  } catch (error: any) {
+    console.error('Error processing batch validation:', error);
+    send({ 
+      type: 'error', 
+      message: error.message || 'An error occurred during validation' 
+    });
+    writer.close();
+  }
+}
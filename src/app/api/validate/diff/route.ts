@@ -0,0 +1,66 @@
+import { parseUnifiedDiff } from '@/utils/diffParser';
+import { loadUploadedConfig, validateDiff } from '@/utils/diffValidator';
+import type { ValidatorConfig } from '@/utils/rules';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Largest diff accepted, in characters
+const MAX_DIFF_SIZE = 5 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Either JSON with the diff and an optional repository config, or the raw diff as the body
+    const isJson = request.headers.get('content-type')?.includes('application/json');
+    let body;
+    try {
+      body = isJson ? await request.json() : { diff: await request.text() };
+    } catch (error: any) {
+      return NextResponse.json(
+        { message: `Invalid JSON body: ${error.message}` },
+        { status: 400 }
+      );
+    }
+    const { diff, config } = body;
+    
+    if (!diff || typeof diff !== 'string') {
+      return NextResponse.json(
+        { message: 'Diff is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (diff.length > MAX_DIFF_SIZE) {
+      return NextResponse.json(
+        { message: 'Diff is too large' },
+        { status: 413 }
+      );
+    }
+    
+    let validatorConfig: ValidatorConfig;
+    try {
+      validatorConfig = loadUploadedConfig(config);
+    } catch (error: any) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      );
+    }
+    
+    const files = parseUnifiedDiff(diff);
+    if (files.length === 0) {
+      return NextResponse.json(
+        { message: 'No file changes found in the diff' },
+        { status: 400 }
+      );
+    }
+    
+    const result = validateDiff(diff, files, validatorConfig);
+    return NextResponse.json(result);
+    
+  } catch (error: any) {
+    console.error('Error in diff validation API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred during validation' },
+      { status: 500 }
+    );
+  }
+}
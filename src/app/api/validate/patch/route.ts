@@ -0,0 +1,33 @@
+import { createPrFixPatch, parsePrReference } from '@/utils/prValidator';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { prLink, fullFile } = body;
+    
+    if (!prLink) {
+      return NextResponse.json(
+        { message: 'PR link is required' },
+        { status: 400 }
+      );
+    }
+    
+    const { repo, pullNumber } = parsePrReference(prLink);
+    const patch = await createPrFixPatch(prLink, { fullFile: Boolean(fullFile) });
+    
+    return new Response(patch, {
+      headers: {
+        'Content-Type': 'text/x-patch; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${repo}-pr-${pullNumber}-migration-fixes.patch"`
+      }
+    });
+  
+  } catch (error: any) {
+    console.error('Error in fix patch API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while creating the fix patch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { validateRefs } from '@/utils/refValidator';
+import { saveResult } from '@/utils/resultStore';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { repo, range, fullFile } = body;
+    
+    if (!repo || !range) {
+      return NextResponse.json(
+        { message: 'Repository and ref range are required' },
+        { status: 400 }
+      );
+    }
+    
+    const options = { fullFile: Boolean(fullFile) };
+    const validationResults = await validateRefs(repo, range, options);
+    validationResults.resultId = await saveResult(validationResults, options);
+    return NextResponse.json(validationResults);
+  
+  } catch (error: any) {
+    console.error('Error in ref validation API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred during validation' },
+      { status: 500 }
+    );
+  }
+}
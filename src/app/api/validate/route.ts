@@ -1,10 +1,16 @@
-import { validatePr } from '@/utils/prValidator';
+import { attributeIssuesToCommits } from '@/utils/commitAttribution';
+import { recordValidation } from '@/utils/history';
+import { parsePrReference, runPrValidation } from '@/utils/prValidator';
+import { getReporter, REPORTERS } from '@/utils/reporters';
+import { saveResult } from '@/utils/resultStore';
+import { getRuleInfos } from '@/utils/rules';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { prLink } = body;
+    const { prLink, fullFile, attributeCommits } = body;
+    const reporter = getReporter(request.nextUrl.searchParams.get('format') ?? 'json');
     
     if (!prLink) {
       return NextResponse.json(
@@ -13,9 +19,31 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const validationResults = await validatePr(prLink);
-    return NextResponse.json(validationResults);
+    if (!reporter) {
+      return NextResponse.json(
+        { message: `Unknown format, expected one of ${REPORTERS.map(({ format }) => format).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const options = { fullFile: Boolean(fullFile) };
+    const { result, context } = await runPrValidation(prLink, options);
+    const validationResults = attributeCommits ? await attributeIssuesToCommits(prLink, result, context) : result;
+    await recordValidation(validationResults);
+    validationResults.resultId = await saveResult(validationResults, options);
+    
+    if (reporter.format === 'json') {
+      return NextResponse.json(validationResults);
+    }
     
+    const { repo, pullNumber } = parsePrReference(prLink);
+    return new Response(reporter.render(validationResults, getRuleInfos(context.config.rules)), {
+      headers: {
+        'Content-Type': reporter.contentType,
+        'Content-Disposition': `attachment; filename="${repo}-pr-${pullNumber}-migration-validator.${reporter.extension}"`
+      }
+    });
+  
   } catch (error: any) {
     console.error('Error in validation API:', error);
     return NextResponse.json(
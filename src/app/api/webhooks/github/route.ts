@@ -0,0 +1,69 @@
+import { publishValidationCheckRun } from '@/utils/checkRun';
+import { recordValidation } from '@/utils/history';
+import { validatePr } from '@/utils/prValidator';
+import { saveResult } from '@/utils/resultStore';
+import { VALIDATED_PR_ACTIONS, verifyWebhookSignature } from '@/utils/webhook';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { message: 'GITHUB_WEBHOOK_SECRET is not configured' },
+        { status: 500 }
+      );
+    }
+    
+    // The signature covers the raw body, so read it before parsing
+    const payload = await request.text();
+    if (!verifyWebhookSignature(payload, request.headers.get('x-hub-signature-256'), secret)) {
+      return NextResponse.json(
+        { message: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+    
+    const event = request.headers.get('x-github-event');
+    
+    // Sent by GitHub when the webhook is created
+    if (event === 'ping') {
+      return NextResponse.json({ message: 'pong' });
+    }
+    
+    if (event !== 'pull_request') {
+      return NextResponse.json(
+        { message: `Unsupported event: ${event}` },
+        { status: 400 }
+      );
+    }
+    
+    const body = JSON.parse(payload);
+    if (!VALIDATED_PR_ACTIONS.includes(body.action)) {
+      return NextResponse.json({ message: `Ignored pull_request action: ${body.action}` });
+    }
+    
+    const prLink = body.pull_request.html_url;
+    
+    // GitHub gives up on deliveries after 10 seconds, so validate in the background
+    validatePr(prLink).then(async result => {
+      await recordValidation(result);
+      result.resultId = await saveResult(result);
+      await publishValidationCheckRun(result);
+    }).catch(error => {
+      console.error(`Error validating ${prLink} from webhook:`, error);
+    });
+    
+    return NextResponse.json(
+      { message: `Validating ${prLink}` },
+      { status: 202 }
+    );
+  
+  } catch (error: any) {
+    console.error('Error in GitHub webhook API:', error);
+    return NextResponse.json(
+      { message: error.message || 'An error occurred while handling the webhook' },
+      { status: 500 }
+    );
+  }
+}
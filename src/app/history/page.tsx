@@ -0,0 +1,13 @@
+'use client';
+
+import Link from 'next/link';
+import MigrationHistory from '@/components/MigrationHistory';
+
+export default function History() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4">
+      <MigrationHistory />
+      <Link href="/scan" className="text-sm text-blue-600 hover:underline">← Scan a repository</Link>
+    </main>
+  );
+}
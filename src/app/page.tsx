@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import PRValidator from '@/components/PRValidator';
 import ValidationRules from '@/components/ValidationRules';
 
@@ -7,6 +8,7 @@ export default function Home() {
   return (
     <main className="min-h-screen flex flex-col items-center justify-center p-4">
       <PRValidator />
+      <Link href="/scan" className="text-sm text-blue-600 hover:underline">Migration progress of a whole repository →</Link>
       <ValidationRules />
     </main>
   );
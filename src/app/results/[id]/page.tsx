@@ -0,0 +1,16 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import ValidationResultView from '@/components/ValidationResultView';
+
+export default function Result() {
+  const { id } = useParams<{ id: string }>();
+  
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4">
+      <ValidationResultView id={id} />
+      <Link href="/" className="text-sm text-blue-600 hover:underline">← Validate a PR</Link>
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import Link from 'next/link';
+import MigrationProgress from '@/components/MigrationProgress';
+
+export default function Scan() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4">
+      <MigrationProgress />
+      <div className="flex gap-6">
+        <Link href="/" className="text-sm text-blue-600 hover:underline">← Validate a PR</Link>
+        <Link href="/history" className="text-sm text-blue-600 hover:underline">History →</Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+import { execFileSync } from 'child_process';
+import { parseArgs } from 'util';
+import { parseUnifiedDiff } from '../utils/diffParser';
+import { getRule, loadRepoValidatorConfig, RULES, Severity } from '../utils/rules';
+import { getSkippedStatus, getValidatedStatus, isValidatableFile, keepAddedIssues, SOURCE_FILE_PATTERN, toFileReport, validateFileContent } from '../utils/rules/engine';
+import { REPO_CONFIG_PATH } from '../utils/rules/repoConfig';
+import { formatSeverityCounts, getIssueSeverity, SEVERITIES } from '../utils/severity';
+import type { FileReport, Issue } from '../utils/types';
+import { summarizeIssues } from '../utils/verdict';
+
+const USAGE = `Usage: migration-validator check [--base <ref>] [--full-file] [--fail-on <severity>] [--json]
+
+Validate the changes of the current branch against the migration rules.
+
+Options:
+  --base <ref>   Branch or commit to compare HEAD with (default: main)
+  --full-file    Validate the whole content of each changed file
+  --fail-on <severity>
+                 Lowest severity that fails the check: error, warning or info
+                 (default: failOn of the repository config, or error)
+  --json         Print the result as JSON
+  -h, --help     Show this help`;
+
+/**
+ * Run a git command
+ * @param cwd The directory to run it in
+ * @param args The git arguments
+ * @returns The standard output
+ */
+const runGit = (cwd: string | undefined, args: string[]): string =>
+  execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+
+// Top level of the working tree, resolved on the first git command
+let topLevel: string | undefined;
+
+/**
+ * Run a git command at the top level of the working tree, so that the paths it lists and reads
+ * are relative to the repository root wherever the command line was started from
+ * @param args The git arguments
+ * @returns The standard output
+ */
+const git = (...args: string[]): string => {
+  topLevel ??= runGit(undefined, ['rev-parse', '--show-toplevel']).trim();
+  return runGit(topLevel, args);
+};
+
+/**
+ * Format an issue as a single line of the text report
+ * @param issue The issue
+ * @returns The formatted line
+ */
+const formatIssue = (issue: Issue): string => {
+  const rule = getRule(issue.checkType);
+  const position = issue.range ? `${issue.range.startLine}:${issue.range.startColumn}` : String(issue.line);
+  const origin = issue.origin === 'pre-existing' ? ' (pre-existing)' : '';
+  
+  return `  ${position.padEnd(8)} ${getIssueSeverity(issue, RULES).padEnd(8)} ${issue.message ?? rule?.summary ?? issue.checkType}${origin}  ${issue.checkType}`;
+};
+
+/**
+ * Validate the diff between the merge base of a ref and HEAD in the local repository
+ * @param argv The command-line arguments, without the command
+ * @returns The process exit code
+ */
+const check = (argv: string[]): number => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      base: { type: 'string', default: 'main' },
+      'full-file': { type: 'boolean', default: false },
+      'fail-on': { type: 'string' },
+      json: { type: 'boolean', default: false }
+    }
+  });
+  
+  const base = values.base!;
+  const failOn = values['fail-on'] as Severity | undefined;
+  if (failOn !== undefined && !SEVERITIES.includes(failOn)) {
+    throw new Error(`--fail-on must be one of ${SEVERITIES.join(', ')}`);
+  }
+  
+  const tree = new Set(git('ls-tree', '-r', '--name-only', '-z', 'HEAD').split('\0').filter(Boolean));
+  const config = loadRepoValidatorConfig(
+    tree.has(REPO_CONFIG_PATH) ? git('show', `HEAD:${REPO_CONFIG_PATH}`) : undefined,
+    `${REPO_CONFIG_PATH}@HEAD`
+  );
+  const applied = failOn ? { ...config.applied, failOn } : config.applied;
+  
+  // Fixed prefixes and no external tools, whatever the user's git config says
+  const diff = git(
+    '-c', 'core.quotePath=false',
+    'diff', '--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/',
+    `${base}...HEAD`
+  );
+  const files = parseUnifiedDiff(diff);
+  
+  const issues: Issue[] = [];
+  const suppressedIssues: Issue[] = [];
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    // Deleted, binary and out-of-root files have nothing to check, so their content is never read
+    const skipped = getSkippedStatus(file, config);
+    if (skipped || !isValidatableFile(file, config)) {
+      reports.push(toFileReport(file, skipped ?? 'validated-clean'));
+      continue;
+    }
+    
+    // Only source files can be parsed in full
+    const isSourceFile = SOURCE_FILE_PATTERN.test(file.filename);
+    const content = values['full-file'] && isSourceFile
+      ? git('show', `HEAD:${file.filename}`)
+      : undefined;
+    let fileIssues = validateFileContent(file, config, { content, tree });
+    
+    // Check findings in the patch against the file-level directives outside its hunks
+    if (content === undefined && isSourceFile && fileIssues.issues.length > 0) {
+      fileIssues = keepAddedIssues(validateFileContent(file, config, { content: git('show', `HEAD:${file.filename}`), tree }));
+    }
+    
+    issues.push(...fileIssues.issues);
+    suppressedIssues.push(...fileIssues.suppressed);
+    reports.push(toFileReport(file, getValidatedStatus(fileIssues.issues)));
+  }
+  
+  const { verdict, counts } = summarizeIssues(issues, applied);
+  
+  if (values.json) {
+    console.log(JSON.stringify({
+      base,
+      config: applied,
+      issues,
+      verdict,
+      counts,
+      suppressedIssues,
+      filesChecked: files.length,
+      checkedFiles: files.map(file => file.filename),
+      files: reports
+    }, null, 2));
+  } else {
+    for (const file of files) {
+      const fileIssues = issues.filter(issue => issue.file === file.filename);
+      if (fileIssues.length > 0) {
+        console.log(file.filename);
+        fileIssues.forEach(issue => console.log(formatIssue(issue)));
+        console.log('');
+      }
+    }
+    
+    console.log(issues.length > 0
+      ? `${issues.length} issue(s) found in ${files.length} file(s) (${formatSeverityCounts(counts)})\nVerdict: ${verdict} (fails on ${applied.failOn} and above)`
+      : `✅ All checks passed successfully! (${files.length} file(s) checked against ${base})`);
+    if (suppressedIssues.length > 0) {
+      console.log(`${suppressedIssues.length} finding(s) suppressed by migration-validator-disable comments`);
+    }
+  }
+  
+  return verdict === 'fail' ? 1 : 0;
+};
+
+const main = (): number => {
+  const [command, ...argv] = process.argv.slice(2);
+  
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE);
+    return command ? 0 : 2;
+  }
+  
+  if (command !== 'check') {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return 2;
+  }
+  
+  try {
+    return check(argv);
+  } catch (error: any) {
+    console.error(`Error: ${error.stderr?.toString().trim() || error.message}`);
+    return 2;
+  }
+};
+
+process.exitCode = main();
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRules } from '@/hooks/useRules';
+import { readNdjsonStream } from '@/utils/ndjson';
+import type { BatchPrResult, BatchReport } from '@/utils/types';
+
+// How the PRs of the batch are picked
+type BatchMode = 'list' | 'query';
+
+// Validation state of each PR of the batch
+type PrStatus = 'pending' | 'running' | BatchPrResult;
+
+const VERDICT_STYLES: Record<BatchPrResult['verdict'], string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-amber-100 text-amber-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+const BatchValidator: React.FC = () => {
+  const [mode, setMode] = useState<BatchMode>('list');
+  const [fullFile, setFullFile] = useState<boolean>(false);
+  const [prLinksText, setPrLinksText] = useState<string>('');
+  const [repo, setRepo] = useState<string>('');
+  const [label, setLabel] = useState<string>('');
+  const [touching, setTouching] = useState<string>('e2e/');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [prLinks, setPrLinks] = useState<string[]>([]);
+  // PRs the query matched, which can be more than the batch validates
+  const [matched, setMatched] = useState<number>(0);
+  const [statuses, setStatuses] = useState<Record<string, PrStatus>>({});
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const rules = useRules();
+  
+  // For abort controller
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // Stop the batch when leaving the tab
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+  
+  const processStreamEvent = (event: any) => {
+    switch (event.type) {
+      case 'init':
+        setStatusMessage(event.message);
+        break;
+      
+      case 'batch_start':
+        setStatusMessage(null);
+        setPrLinks(event.prLinks);
+        setMatched(event.matched ?? event.prLinks.length);
+        setStatuses(Object.fromEntries(event.prLinks.map((link: string) => [link, 'pending'])));
+        break;
+      
+      case 'pr_started':
+        setStatuses(prev => ({ ...prev, [event.prLink]: 'running' }));
+        break;
+      
+      case 'pr_complete':
+        setStatuses(prev => ({ ...prev, [event.result.prLink]: event.result }));
+        break;
+      
+      case 'complete':
+        setReport(event.data);
+        setLoading(false);
+        break;
+      
+      case 'error':
+        setError(event.message);
+        setLoading(false);
+        break;
+      
+      default:
+        console.log('Unknown event type:', event);
+    }
+  };
+  
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    
+    const links = prLinksText.split(/\s+/).filter(Boolean);
+    if (mode === 'list' && links.length === 0) {
+      setError('Please enter at least one GitHub PR link');
+      return;
+    }
+    if (mode === 'query' && !repo.trim()) {
+      setError('Please enter a repository (e.g., owner/repo)');
+      return;
+    }
+    
+    setLoading(true);
+    setError(null);
+    setReport(null);
+    setPrLinks([]);
+    setMatched(0);
+    setStatuses({});
+    abortControllerRef.current = new AbortController();
+    
+    try {
+      const response = await fetch('/api/validate/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(mode === 'list'
+          ? { prLinks: links, fullFile }
+          : { query: { repo, label: label || undefined, touching: touching || undefined }, fullFile }),
+        signal: abortControllerRef.current.signal
+      });
+      
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start batch validation');
+      }
+      
+      await readNdjsonStream(response.body, processStreamEvent);
+    } catch (err: any) {
+      if (err.name !== 'AbortError') {
+        setError(err.message || 'Error in batch validation');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  const finished = Object.values(statuses).filter(status => typeof status === 'object').length;
+  const progress = prLinks.length === 0 ? 0 : Math.round((finished / prLinks.length) * 100);
+  
+  // Only show a column for the rules with issues in the batch
+  const ruleColumns = rules.filter(rule =>
+    Object.values(statuses).some(status => typeof status === 'object' && status.issuesByRule[rule.id])
+  );
+  
+  return (
+    <div>
+      <form onSubmit={handleSubmit} className="mb-8 space-y-3">
+        <div className="flex gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={mode === 'list'} onChange={() => setMode('list')} />
+            List of PRs
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={mode === 'query'} onChange={() => setMode('query')} />
+            Open PRs of a repository
+          </label>
+        </div>
+        
+        {mode === 'list' ? (
+          <textarea
+            value={prLinksText}
+            onChange={(e) => setPrLinksText(e.target.value)}
+            placeholder={'https://github.com/owner/repo/pull/123\nowner/repo#124'}
+            rows={6}
+            className="w-full px-4 py-2 border rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-4">
+            <input
+              type="text"
+              value={repo}
+              onChange={(e) => setRepo(e.target.value)}
+              placeholder="owner/repo"
+              className="flex-1 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional)"
+              className="sm:w-48 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={touching}
+              onChange={(e) => setTouching(e.target.value)}
+              placeholder="Changing files under (optional)"
+              className="sm:w-48 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+        
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={fullFile}
+            onChange={(e) => setFullFile(e.target.checked)}
+          />
+          Validate full file contents (also reports pre-existing issues outside the diff)
+        </label>
+        
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Validating...' : 'Validate all'}
+        </button>
+      </form>
+      
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      
+      {loading && statusMessage && <p className="mb-6 text-gray-700">{statusMessage}</p>}
+      
+      {prLinks.length > 0 && (
+        <div className="border rounded-lg p-6 bg-gray-50 space-y-4">
+          <div>
+            <div className="flex justify-between mb-1">
+              <span>Progress: {finished} / {prLinks.length} PRs</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2.5">
+              <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+          
+          {matched > prLinks.length && (
+            <p className="text-sm text-amber-700">
+              The query matched {matched} PRs, only the {prLinks.length} most recently created are validated.
+            </p>
+          )}
+          
+          {report && (
+            <p className="font-medium">
+              ✅ {report.passed} passed · ⚠️ {report.failed} failed{report.errored > 0 && ` · ❌ ${report.errored} could not be validated`}
+            </p>
+          )}
+          
+          <div className="bg-white rounded border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 text-left">
+                <tr>
+                  <th className="px-3 py-2">PR</th>
+                  <th className="px-3 py-2">Author</th>
+                  {ruleColumns.map(rule => (
+                    <th key={rule.id} className="px-3 py-2 text-right" title={rule.summary}>{rule.id}</th>
+                  ))}
+                  <th className="px-3 py-2 text-right">Issues</th>
+                  <th className="px-3 py-2">Verdict</th>
+                </tr>
+              </thead>
+              <tbody>
+                {prLinks.map(link => {
+                  const status = statuses[link];
+                  const result = typeof status === 'object' ? status : null;
+                  
+                  return (
+                    <tr key={link} className="border-t">
+                      <td className="px-3 py-2 break-all">
+                        <a href={result?.pr?.url ?? link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          {result?.pr?.title ?? link}
+                        </a>
+                        {result?.error && <div className="text-xs text-red-700">{result.error}</div>}
+                      </td>
+                      <td className="px-3 py-2">{result?.pr?.author ?? ''}</td>
+                      {ruleColumns.map(rule => (
+                        <td key={rule.id} className="px-3 py-2 text-right">{result?.issuesByRule[rule.id] ?? (result ? 0 : '')}</td>
+                      ))}
+                      <td className="px-3 py-2 text-right">{result && result.verdict !== 'error' ? result.issueCount : ''}</td>
+                      <td className="px-3 py-2">
+                        {result ? (
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${VERDICT_STYLES[result.verdict]}`}>{result.verdict}</span>
+                        ) : (
+                          <span className="text-xs text-gray-500">{status === 'running' ? 'validating...' : 'pending'}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchValidator;
@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRules } from '@/hooks/useRules';
+import type { HistoryEntry } from '@/utils/types';
+
+// Chart size and margins, in SVG units
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 320;
+const CHART_MARGIN = { top: 20, right: 20, bottom: 30, left: 50 };
+
+// Line colors, assigned to rules in order
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Whether any count changed between two scans
+const hasMoved = (previous: HistoryEntry, entry: HistoryEntry) =>
+  [...new Set([...Object.keys(previous.legacy), ...Object.keys(entry.legacy)])]
+    .some(ruleId => (previous.legacy[ruleId] ?? 0) !== (entry.legacy[ruleId] ?? 0));
+
+// Weeks until nothing legacy is left, extrapolating the trend between the first and last scans
+const estimateWeeksLeft = (scans: HistoryEntry[]): number | null => {
+  if (scans.length < 2) return null;
+  
+  const first = scans[0];
+  const last = scans[scans.length - 1];
+  const weeks = (Date.parse(last.timestamp) - Date.parse(first.timestamp)) / WEEK_MS;
+  const perWeek = (first.total - last.total) / weeks;
+  
+  if (last.total === 0) return 0;
+  if (!(weeks > 0) || perWeek <= 0) return null;
+  
+  return Math.ceil(last.total / perWeek);
+};
+
+const MigrationHistory: React.FC = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [selectedRepo, setSelectedRepo] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const rules = useRules();
+  
+  useEffect(() => {
+    fetch('/api/history')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.entries) {
+          throw new Error(data.message || 'Failed to load the history');
+        }
+        setEntries(data.entries);
+        setSelectedRepo(current => current || data.entries[data.entries.length - 1]?.repo || '');
+      })
+      .catch(err => setError(err.message || 'Failed to load the history'));
+  }, []);
+  
+  const repos = useMemo(() => [...new Set(entries.map(entry => entry.repo))].sort(), [entries]);
+  const scans = entries.filter(entry => entry.repo === selectedRepo && entry.kind === 'scan');
+  const validations = entries.filter(entry => entry.repo === selectedRepo && entry.kind === 'pr').reverse();
+  
+  // One line per rule that had legacy code at some point
+  const ruleIds = [...new Set(scans.flatMap(scan => Object.keys(scan.legacy).filter(ruleId => scan.legacy[ruleId] > 0)))];
+  const getRuleSummary = (ruleId: string) => rules.find(rule => rule.id === ruleId)?.summary ?? ruleId;
+  
+  const times = scans.map(scan => Date.parse(scan.timestamp));
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const maxValue = Math.max(1, ...scans.flatMap(scan => ruleIds.map(ruleId => scan.legacy[ruleId] ?? 0)));
+  
+  const plotWidth = CHART_WIDTH - CHART_MARGIN.left - CHART_MARGIN.right;
+  const plotHeight = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom;
+  const x = (time: number) => CHART_MARGIN.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (value: number) => CHART_MARGIN.top + plotHeight - (value / maxValue) * plotHeight;
+  
+  const weeksLeft = estimateWeeksLeft(scans);
+  
+  // Scans whose counts differ from the previous one
+  const movedIndexes = scans.map((_, index) => index).filter(index => index > 0 && hasMoved(scans[index - 1], scans[index]));
+  
+  return (
+    <div className="max-w-5xl mx-auto w-full px-4 py-6">
+      <h1 className="text-3xl font-bold mb-4 text-center">🦊 Migration History</h1>
+      <p className="text-center mb-6">Legacy code left per check over the recorded repository scans</p>
+      
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      
+      {!error && entries.length === 0 && (
+        <p className="text-center text-gray-500">Nothing recorded yet. Scan a repository or validate a PR to start the history.</p>
+      )}
+      
+      {repos.length > 0 && (
+        <div className="space-y-6">
+          <select
+            value={selectedRepo}
+            onChange={(e) => setSelectedRepo(e.target.value)}
+            className="px-4 py-2 border rounded bg-white"
+          >
+            {repos.map(repo => <option key={repo} value={repo}>{repo}</option>)}
+          </select>
+          
+          {/* Legacy code per rule over time */}
+          <div className="border rounded-lg p-6 bg-gray-50">
+            <h2 className="text-2xl font-semibold mb-2">Legacy code per check</h2>
+            
+            {scans.length === 0 ? (
+              <p className="text-gray-500">No scans recorded for this repository.</p>
+            ) : (
+              <>
+                <p className="mb-4">
+                  {scans[scans.length - 1].total} legacy finding(s) left at the last scan.{' '}
+                  {weeksLeft === 0 && 'The migration is complete.'}
+                  {weeksLeft !== null && weeksLeft > 0 && `At the current pace, about ${weeksLeft} week(s) left.`}
+                  {weeksLeft === null && scans.length > 1 && 'No progress between the first and last scans to extrapolate from.'}
+                </p>
+                
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-white border rounded">
+                  {/* Axes */}
+                  <line x1={CHART_MARGIN.left} y1={y(0)} x2={CHART_WIDTH - CHART_MARGIN.right} y2={y(0)} stroke="#9ca3af" />
+                  <line x1={CHART_MARGIN.left} y1={CHART_MARGIN.top} x2={CHART_MARGIN.left} y2={y(0)} stroke="#9ca3af" />
+                  <text x={CHART_MARGIN.left - 8} y={y(maxValue) + 4} textAnchor="end" fontSize="12" fill="#4b5563">{maxValue}</text>
+                  <text x={CHART_MARGIN.left - 8} y={y(0) + 4} textAnchor="end" fontSize="12" fill="#4b5563">0</text>
+                  <text x={x(minTime)} y={CHART_HEIGHT - 8} textAnchor="start" fontSize="12" fill="#4b5563">{new Date(minTime).toLocaleDateString()}</text>
+                  {maxTime !== minTime && (
+                    <text x={x(maxTime)} y={CHART_HEIGHT - 8} textAnchor="end" fontSize="12" fill="#4b5563">{new Date(maxTime).toLocaleDateString()}</text>
+                  )}
+                  
+                  {/* Commits that moved the numbers */}
+                  {movedIndexes.map(index => (
+                    <line
+                      key={scans[index].id}
+                      x1={x(times[index])}
+                      y1={CHART_MARGIN.top}
+                      x2={x(times[index])}
+                      y2={y(0)}
+                      stroke="#d1d5db"
+                      strokeDasharray="4 4"
+                    >
+                      <title>{`${scans[index].sha.substring(0, 7)} (${scans[index].label}): ${scans[index - 1].total} → ${scans[index].total}`}</title>
+                    </line>
+                  ))}
+                  
+                  {ruleIds.map((ruleId, ruleIndex) => (
+                    <g key={ruleId} stroke={SERIES_COLORS[ruleIndex % SERIES_COLORS.length]} fill={SERIES_COLORS[ruleIndex % SERIES_COLORS.length]}>
+                      <polyline
+                        fill="none"
+                        strokeWidth={2}
+                        points={scans.map((scan, index) => `${x(times[index])},${y(scan.legacy[ruleId] ?? 0)}`).join(' ')}
+                      />
+                      {scans.map((scan, index) => (
+                        <circle key={scan.id} cx={x(times[index])} cy={y(scan.legacy[ruleId] ?? 0)} r={3}>
+                          <title>{`${getRuleSummary(ruleId)}: ${scan.legacy[ruleId] ?? 0} at ${scan.sha.substring(0, 7)} (${new Date(scan.timestamp).toLocaleString()})`}</title>
+                        </circle>
+                      ))}
+                    </g>
+                  ))}
+                </svg>
+                
+                <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                  {ruleIds.map((ruleId, ruleIndex) => (
+                    <li key={ruleId} className="flex items-center">
+                      <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SERIES_COLORS[ruleIndex % SERIES_COLORS.length] }}></span>
+                      {getRuleSummary(ruleId)}
+                    </li>
+                  ))}
+                </ul>
+                
+                {/* Scans that moved the numbers */}
+                <h3 className="text-lg font-semibold mt-6 mb-2">Commits that moved the numbers</h3>
+                {movedIndexes.length === 0 ? (
+                  <p className="text-gray-500">No change between the recorded scans.</p>
+                ) : (
+                  <ul className="bg-white rounded border p-4 space-y-1 text-sm">
+                    {movedIndexes.map(index => (
+                      <li key={scans[index].id}>
+                        <code>{scans[index].sha.substring(0, 7)}</code> ({scans[index].label}, {new Date(scans[index].timestamp).toLocaleDateString()}):{' '}
+                        <span className={scans[index].total < scans[index - 1].total ? 'text-green-700' : 'text-red-700'}>
+                          {scans[index - 1].total} → {scans[index].total}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+          
+          {/* Recent PR validations */}
+          <div className="border rounded-lg p-6 bg-gray-50">
+            <h2 className="text-2xl font-semibold mb-2">PR validations</h2>
+            {validations.length === 0 ? (
+              <p className="text-gray-500">No PR validations recorded for this repository.</p>
+            ) : (
+              <ul className="bg-white rounded border divide-y text-sm">
+                {validations.map(entry => (
+                  <li key={entry.id} className="p-3 flex justify-between gap-4">
+                    <span>
+                      {entry.url ? (
+                        <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{entry.label}</a>
+                      ) : entry.label}
+                      <span className="ml-2 text-gray-500"><code>{entry.sha.substring(0, 7)}</code> · {new Date(entry.timestamp).toLocaleString()}</span>
+                    </span>
+                    <span className={entry.total > 0 ? 'text-amber-700 font-medium' : 'text-green-700'}>
+                      {entry.total > 0 ? `${entry.total} issue(s)` : '✓'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MigrationHistory;
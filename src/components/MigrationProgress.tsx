@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { useRules } from '@/hooks/useRules';
+import type { ScanResult } from '@/utils/types';
+
+// Color of a progress bar for a migrated percentage
+const getProgressColor = (percent: number) => {
+  if (percent >= 90) return 'bg-green-600';
+  if (percent >= 50) return 'bg-amber-500';
+  return 'bg-red-500';
+};
+
+const ProgressBar: React.FC<{ percent: number }> = ({ percent }) => (
+  <div className="w-full bg-gray-200 rounded-full h-2.5">
+    <div
+      className={`${getProgressColor(percent)} h-2.5 rounded-full`}
+      style={{ width: `${percent}%` }}
+    ></div>
+  </div>
+);
+
+const MigrationProgress: React.FC = () => {
+  const [repo, setRepo] = useState<string>('MetaMask/metamask-mobile');
+  const [ref, setRef] = useState<string>('main');
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showOffenders, setShowOffenders] = useState<boolean>(false);
+  const rules = useRules();
+  
+  const getRuleSummary = (ruleId: string) => rules.find(rule => rule.id === ruleId)?.summary ?? ruleId;
+  
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    
+    try {
+      const response = await fetch('/api/scan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repo, ref })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to scan the repository');
+      }
+      
+      setResult(data);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while scanning the repository');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  return (
+    <div className="max-w-5xl mx-auto w-full px-4 py-6">
+      <h1 className="text-3xl font-bold mb-4 text-center">🦊 Migration Progress</h1>
+      <p className="text-center mb-6">Scan every e2e file of a repository to measure how far the framework migration has gone</p>
+      
+      <form onSubmit={handleSubmit} className="mb-8">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <input
+            type="text"
+            value={repo}
+            onChange={(e) => setRepo(e.target.value)}
+            placeholder="owner/repo"
+            className="flex-1 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={ref}
+            onChange={(e) => setRef(e.target.value)}
+            placeholder="main"
+            className="sm:w-48 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading || !repo}
+            className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Scanning...' : 'Scan'}
+          </button>
+        </div>
+      </form>
+      
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      
+      {result && (
+        <div className="border rounded-lg p-6 bg-gray-50 space-y-6">
+          {/* Overall progress */}
+          <div>
+            <h2 className="text-2xl font-semibold mb-2">Overall</h2>
+            <div className="bg-white rounded p-4 border space-y-2">
+              <p>
+                <span className="font-medium">{result.repo}</span> at <code>{result.ref}</code> ({result.sha.substring(0, 7)})
+              </p>
+              <p>Config: <span className="font-medium">{result.config.source ?? 'built-in defaults'}</span></p>
+              <p>Files scanned: <span className="font-medium">{result.filesScanned}</span></p>
+              <div className="flex justify-between">
+                <span>{result.total - result.legacy} / {result.total} checks migrated</span>
+                <span className="font-medium">{result.percentMigrated}%</span>
+              </div>
+              <ProgressBar percent={result.percentMigrated} />
+            </div>
+          </div>
+          
+          {/* Progress per rule */}
+          <div>
+            <h2 className="text-2xl font-semibold mb-2">By check type</h2>
+            <div className="bg-white rounded border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100 text-left">
+                  <tr>
+                    <th className="px-4 py-2">Check</th>
+                    <th className="px-4 py-2 text-right">Migrated</th>
+                    <th className="px-4 py-2 text-right">Legacy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(result.rules).filter(([, progress]) => progress.total > 0).map(([ruleId, progress]) => (
+                    <tr key={ruleId} className="border-t">
+                      <td className="px-4 py-2">{getRuleSummary(ruleId)}</td>
+                      <td className="px-4 py-2 text-right">{progress.total - progress.legacy}</td>
+                      <td className={`px-4 py-2 text-right ${progress.legacy > 0 ? 'text-amber-700 font-medium' : ''}`}>{progress.legacy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          
+          {/* Progress per directory */}
+          <div>
+            <h2 className="text-2xl font-semibold mb-2">By directory</h2>
+            <div className="bg-white rounded border p-4 space-y-3 overflow-y-auto max-h-[32rem]">
+              {result.directories.map(directory => (
+                <div key={directory.directory}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="break-all">
+                      {directory.directory}
+                      <span className="ml-2 text-xs text-gray-500">({directory.filesScanned} files, {directory.legacy} legacy)</span>
+                    </span>
+                    <span className="font-medium ml-2">{directory.percentMigrated}%</span>
+                  </div>
+                  <ProgressBar percent={directory.percentMigrated} />
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {/* Remaining offenders */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold">Remaining offenders ({result.offenders.length})</h2>
+              {result.offenders.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowOffenders(!showOffenders)}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {showOffenders ? 'Hide' : 'Show'}
+                </button>
+              )}
+            </div>
+            {showOffenders && (
+              <ul className="bg-white rounded border p-4 space-y-1 text-sm overflow-y-auto max-h-[32rem]">
+                {result.offenders.map((issue, idx) => (
+                  <li key={idx}>
+                    <span className="font-medium break-all">{issue.file}:{issue.line}</span>
+                    <span className="ml-2 text-gray-600">{getRuleSummary(issue.checkType)}</span>
+                    <div><code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code></div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MigrationProgress;
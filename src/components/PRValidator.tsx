@@ -1,61 +1,72 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-
-interface Issue {
-  file: string;
-  line: number | string;
-  importStatement: string;
-  checkType: 'assertions-framework' | 'assertions-no-ts' | 'gestures-framework' | 'getter-type' | 'fixtures-framework' | 'test-withfixtures' | 'matchers-framework' | 'fixture-utils-framework';
-}
-
-interface PrInfo {
-  title: string;
-  url: string;
-  author: string;
-}
-
-interface ValidationResult {
-  pr: PrInfo;
-  issues: Issue[];
-  filesChecked: number;
-  checkedFiles: string[];
-}
+import BatchValidator from '@/components/BatchValidator';
+import { useRules } from '@/hooks/useRules';
+import { readNdjsonStream } from '@/utils/ndjson';
+import { getReporter, REPORTERS } from '@/utils/reporters';
+import { applyRuleSettings } from '@/utils/severity';
+import type { AppliedConfig, FileReport, FileStatus, Issue, IssueCommit, PrSummary as PrInfo, Severity, UncheckedFile, ValidationResult, Verdict } from '@/utils/types';
 
 interface FileCheckState {
   [filename: string]: boolean; // track expanded/collapsed state for each file
 }
 
-// Description mapping for each check type
-const CHECK_DESCRIPTIONS = {
-  'assertions-framework': 'Assertions import must include /framework path',
-  'assertions-no-ts': 'Assertions import should not include .ts extension',
-  'gestures-framework': 'Gestures import must include /framework path',
-  'getter-type': 'Getter methods must have proper type prefix',
-  'fixtures-framework': 'withFixtures import must include /framework/fixtures path',
-  'test-withfixtures': 'Test files must use withFixtures in each it() block',
-  'matchers-framework': 'Matchers import must include /framework path',
-  'fixture-utils-framework': 'Fixture utilities must include /framework path'
-};
-
 // Get the base URL depending on environment
 const getApiUrl = (path: string) => {
   // No need for basePath with Vercel deployment
   return path;
 };
 
+// Where the changes to validate come from
+type ValidationSource = 'pr' | 'refs' | 'diff' | 'batch';
+
+// Short label of each reason the rules didn't run on a file
+const SKIPPED_LABELS: Partial<Record<FileStatus, string>> = {
+  'skipped-not-e2e': 'not an e2e file',
+  'skipped-binary': 'binary file',
+  'skipped-removed': 'removed',
+  'skipped-too-large': 'diff too large'
+};
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+  info: 'bg-blue-100 text-blue-800'
+};
+
+const VERDICT_STYLES: Record<Verdict, string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800'
+};
+
 const PRValidator: React.FC = () => {
+  const [source, setSource] = useState<ValidationSource>('pr');
   const [prLink, setPrLink] = useState<string>('');
+  const [diffText, setDiffText] = useState<string>('');
+  const [refRepo, setRefRepo] = useState<string>('');
+  const [refRange, setRefRange] = useState<string>('');
   const [results, setResults] = useState<ValidationResult | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [copiedFile, setCopiedFile] = useState<string | null>(null);
+  const [fullFile, setFullFile] = useState<boolean>(false);
+  const [attributeCommits, setAttributeCommits] = useState<boolean>(false);
+  const rules = useRules();
+  const [canPostReviews, setCanPostReviews] = useState<boolean>(false);
+  const [postingReview, setPostingReview] = useState<boolean>(false);
+  const [reviewMessage, setReviewMessage] = useState<string | null>(null);
+  const [reportFormat, setReportFormat] = useState<string>('markdown');
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   
   // Live updating state - always enabled
   const [totalFiles, setTotalFiles] = useState<number>(0);
   const [processedFiles, setProcessedFiles] = useState<string[]>([]);
   const [foundIssues, setFoundIssues] = useState<Issue[]>([]);
+  const [uncheckedFiles, setUncheckedFiles] = useState<UncheckedFile[]>([]);
+  const [fileReports, setFileReports] = useState<Record<string, FileReport>>({});
   const [prInfo, setPrInfo] = useState<PrInfo | null>(null);
+  const [appliedConfig, setAppliedConfig] = useState<AppliedConfig | null>(null);
   const [processingComplete, setProcessingComplete] = useState<boolean>(false);
   
   // Track expanded/collapsed state of each file
@@ -63,11 +74,37 @@ const PRValidator: React.FC = () => {
   
   // For abort controller
   const abortControllerRef = useRef<AbortController | null>(null);
-
+  
+  // Posting reviews needs a server token with write scope
+  useEffect(() => {
+    fetch(getApiUrl('/api/test'))
+      .then(response => response.json())
+      .then(data => setCanPostReviews(Boolean(data.canPostReviews)))
+      .catch(err => console.error('Failed to check GitHub token status: ', err));
+  }, []);
+  
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setPrLink(e.target.value);
   };
-
+  
+  // Load an uploaded .patch or .diff file into the diff input
+  const handleDiffFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setDiffText(await file.text());
+    }
+  };
+  
+  // Switch between validating a PR and a diff, clearing the previous results
+  const switchSource = (newSource: ValidationSource) => {
+    if (loading || newSource === source) return;
+    
+    setSource(newSource);
+    setResults(null);
+    setError(null);
+    resetLiveState();
+  };
+  
   // Toggle expanded/collapsed state of a file
   const toggleFileExpanded = (filename: string) => {
     setExpandedFiles(prev => ({
@@ -75,7 +112,7 @@ const PRValidator: React.FC = () => {
       [filename]: !prev[filename]
     }));
   };
-
+  
   // Create a GitHub diff link for a specific file
   const getFileDiffLink = (file: string): string => {
     // Remove trailing slash from PR link if it exists
@@ -96,13 +133,100 @@ const PRValidator: React.FC = () => {
       })
       .catch(err => console.error('Failed to copy filename: ', err));
   };
-
+  
+  // Copy the permalink of the stored result to clipboard
+  const copyResultLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/results/${results!.resultId}`)
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(err => console.error('Failed to copy link: ', err));
+  };
+  
+  // Download a patch applying every suggested fix
+  const downloadFixPatch = async () => {
+    try {
+      const response = await fetch(getApiUrl('/api/validate/patch'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ prLink, fullFile })
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to create the fix patch');
+      }
+      
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'migration-fixes.patch';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create the fix patch');
+    }
+  };
+  
+  // Download the result in the selected report format, e.g. SARIF for GitHub code scanning
+  const downloadReport = () => {
+    const reporter = getReporter(reportFormat);
+    if (!results || !reporter) return;
+    
+    // Describe the rules as the validation ran them, with the repository's disabled rules and severities
+    const report = reporter.render(results, applyRuleSettings(rules, results.config));
+    const url = URL.createObjectURL(new Blob([report], { type: reporter.contentType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `migration-validator.${reporter.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  // Post the issues as an inline GitHub review on the PR
+  const postReview = async () => {
+    setPostingReview(true);
+    setReviewMessage(null);
+    
+    try {
+      const response = await fetch(getApiUrl('/api/review'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ prLink, fullFile })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to post the review');
+      }
+      
+      setReviewMessage(
+        `Review posted: ${data.created} new, ${data.updated} updated, ${data.resolved} resolved` +
+        (data.skipped > 0 ? `, ${data.skipped} outside the diff` : '')
+      );
+    } catch (err: any) {
+      setError(err.message || 'Failed to post the review');
+    } finally {
+      setPostingReview(false);
+    }
+  };
+  
   // Clean up function for when validation ends
   const resetLiveState = () => {
     setTotalFiles(0);
     setProcessedFiles([]);
     setFoundIssues([]);
+    setUncheckedFiles([]);
+    setFileReports({});
     setPrInfo(null);
+    setAppliedConfig(null);
+    setReviewMessage(null);
     setProcessingComplete(false);
     setExpandedFiles({});
     
@@ -111,14 +235,14 @@ const PRValidator: React.FC = () => {
       abortControllerRef.current = null;
     }
   };
-
+  
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     
-    // Validate input is a GitHub PR link - allow optional trailing slash
-    const prLinkRegex = /^https:\/\/github\.com\/[\w-]+\/[\w-]+\/pull\/\d+\/?$/;
-    if (!prLinkRegex.test(prLink)) {
-      setError('Please enter a valid GitHub PR link (e.g., https://github.com/owner/repo/pull/123)');
+    // Validate input looks like a PR reference, the server checks the host and default repository
+    const prReferenceRegex = /^(\S+\/pull\/\d+\S*|[\w.-]+\/[\w.-]+#\d+|#?\d+)$/;
+    if (!prReferenceRegex.test(prLink.trim())) {
+      setError('Please enter a GitHub PR link, owner/repo#123 or a PR number');
       return;
     }
     
@@ -134,7 +258,87 @@ const PRValidator: React.FC = () => {
       setLoading(false);
     }
   };
-
+  
+  const handleDiffSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    
+    if (!diffText.trim()) {
+      setError('Please paste or upload a diff');
+      return;
+    }
+    
+    setLoading(true);
+    setError(null);
+    setResults(null);
+    resetLiveState();
+    
+    try {
+      const response = await fetch(getApiUrl('/api/validate/diff'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ diff: diffText })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to validate the diff');
+      }
+      
+      setResults(data);
+      setPrInfo(data.pr);
+      setAppliedConfig(data.config);
+      setUncheckedFiles(data.uncheckedFiles);
+      setFileReports(Object.fromEntries(data.files.map((file: FileReport) => [file.filename, file])));
+      setProcessingComplete(true);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while validating the diff');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  const handleRefsSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    
+    if (!refRepo.trim() || !refRange.trim()) {
+      setError('Please enter a repository (e.g., owner/repo) and base...head refs or a commit SHA');
+      return;
+    }
+    
+    setLoading(true);
+    setError(null);
+    setResults(null);
+    resetLiveState();
+    
+    try {
+      const response = await fetch(getApiUrl('/api/validate/refs'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repo: refRepo, range: refRange, fullFile })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to validate the refs');
+      }
+      
+      setResults(data);
+      setPrInfo(data.pr);
+      setAppliedConfig(data.config);
+      setUncheckedFiles(data.uncheckedFiles);
+      setFileReports(Object.fromEntries(data.files.map((file: FileReport) => [file.filename, file])));
+      setProcessingComplete(true);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while validating the refs');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   const handleStreamValidation = async () => {
     abortControllerRef.current = new AbortController();
     
@@ -144,7 +348,7 @@ const PRValidator: React.FC = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ prLink }),
+        body: JSON.stringify({ prLink, fullFile, attributeCommits }),
         signal: abortControllerRef.current.signal
       });
       
@@ -152,46 +356,8 @@ const PRValidator: React.FC = () => {
         throw new Error('Failed to start streaming validation');
       }
       
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      
-      let buffer = '';
-      
-      while (true) {
-        const { value, done } = await reader.read();
-        
-        if (done) {
-          break;
-        }
-        
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Process complete events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep the last incomplete line in the buffer
-        
-        for (const line of lines) {
-          if (line.trim() === '') continue;
-          
-          try {
-            const event = JSON.parse(line);
-            processStreamEvent(event);
-          } catch (e) {
-            console.error('Error parsing event:', e, line);
-          }
-        }
-      }
-      
-      // Process any remaining buffer
-      if (buffer.trim()) {
-        try {
-          const event = JSON.parse(buffer);
-          processStreamEvent(event);
-        } catch (e) {
-          console.error('Error parsing final event:', e, buffer);
-        }
-      }
-      
+      await readNdjsonStream(response.body, processStreamEvent);
+    
     } catch (err: any) {
       if (err.name !== 'AbortError') {
         setError(err.message || 'Error in streaming validation');
@@ -200,45 +366,60 @@ const PRValidator: React.FC = () => {
       setLoading(false);
     }
   };
-
+  
   const processStreamEvent = (event: any) => {
     switch (event.type) {
       case 'init':
         // Just log or update UI with starting message
         break;
-        
+      
       case 'pr_info':
         setPrInfo(event.data);
         break;
-        
+      
+      case 'config':
+        setAppliedConfig(event.data);
+        break;
+      
       case 'total_files':
         setTotalFiles(event.count);
         break;
-        
+      
       case 'file_checked':
         setProcessedFiles(prev => [...prev, event.file]);
         break;
-        
+      
       case 'issue_found':
         setFoundIssues(prev => [...prev, ...event.issues]);
         break;
-        
+      
+      case 'file_status':
+        setFileReports(prev => ({ ...prev, [event.file.filename]: event.file }));
+        break;
+      
+      case 'file_unchecked':
+        setUncheckedFiles(prev => [...prev, event.file]);
+        break;
+      
       case 'complete':
         setResults(event.data);
+        setAppliedConfig(event.data.config);
+        setUncheckedFiles(event.data.uncheckedFiles);
+        setFileReports(Object.fromEntries(event.data.files.map((file: FileReport) => [file.filename, file])));
         setProcessingComplete(true);
         setLoading(false);
         break;
-        
+      
       case 'error':
         setError(event.message);
         setLoading(false);
         break;
-        
+      
       default:
         console.log('Unknown event type:', event);
     }
   };
-
+  
   // Helper function to determine if a file has issues
   const fileHasIssues = (filename: string) => {
     if (loading) {
@@ -252,9 +433,32 @@ const PRValidator: React.FC = () => {
     return false;
   };
   
-  // Helper function to determine if a file is an e2e file
+  // Directories validated by the server, as reported with the applied config
+  const e2eRoots = appliedConfig?.e2eRoots ?? ['e2e/'];
+  
+  // Helper function to determine if a file is under one of the configured e2e roots
   const isE2eFile = (filename: string) => {
-    return filename.startsWith('e2e/');
+    return e2eRoots.some(root => filename.startsWith(root));
+  };
+  
+  // Why the rules didn't run on a file, guessed from the e2e roots until the server reports it
+  const getFileSkippedStatus = (filename: string): FileStatus | undefined => {
+    const status = fileReports[filename]?.status ?? (isE2eFile(filename) ? undefined : 'skipped-not-e2e');
+    return status?.startsWith('skipped') ? status : undefined;
+  };
+  
+  // Explanation shown in the details of a file the rules didn't run on
+  const getSkippedReason = (status: FileStatus) => {
+    switch (status) {
+      case 'skipped-binary':
+        return 'This is a binary file. Validation checks only run on text changes.';
+      case 'skipped-removed':
+        return 'This file is removed, so there is no new code to check.';
+      case 'skipped-too-large':
+        return 'GitHub left out the diff of this file because it is too large, and its contents could not be compared instead.';
+      default:
+        return `This file is not under an e2e root (${e2eRoots.join(', ')}). Validation checks are skipped for non-e2e files.`;
+    }
   };
   
   // Get issues for a specific file
@@ -275,7 +479,7 @@ const PRValidator: React.FC = () => {
     const fileIssues = getIssuesForFile(filename);
     return fileIssues.filter(issue => issue.checkType === checkType);
   };
-
+  
   // Check if a specific file has issues for a particular check type
   const hasIssuesForCheckType = (filename: string, checkType: string) => {
     const fileIssues = getIssuesForFile(filename);
@@ -287,7 +491,7 @@ const PRValidator: React.FC = () => {
     if (totalFiles === 0) return 0;
     return Math.round((processedFiles.length / totalFiles) * 100);
   };
-
+  
   // Get current files to display (either from live updates or final results)
   const getFilesToDisplay = () => {
     let files: string[] = [];
@@ -298,19 +502,33 @@ const PRValidator: React.FC = () => {
       files = [...results.checkedFiles];
     }
     
-    // Sort files so that e2e files appear at the top and non-e2e files at the bottom
+    // Sort files so that validated files appear at the top and skipped files at the bottom
     return files.sort((a, b) => {
-      const aIsE2e = a.startsWith('e2e/');
-      const bIsE2e = b.startsWith('e2e/');
+      const aIsValidated = !getFileSkippedStatus(a);
+      const bIsValidated = !getFileSkippedStatus(b);
       
-      if (aIsE2e && !bIsE2e) return -1; // a is e2e, b is not, so a comes first
-      if (!aIsE2e && bIsE2e) return 1;  // a is not e2e, b is, so b comes first
+      if (aIsValidated && !bIsValidated) return -1; // a is validated, b is not, so a comes first
+      if (!aIsValidated && bIsValidated) return 1;  // a is not validated, b is, so b comes first
       
-      // If both are e2e or both are not e2e, sort alphabetically
+      // If both are validated or both are skipped, sort alphabetically
       return a.localeCompare(b);
     });
   };
   
+  // Link to a commit of the validated PR
+  const getCommitLink = (commit: IssueCommit) =>
+    prInfo?.url?.includes('/pull/') ? `${prInfo.url.replace(/\/$/, '')}/commits/${commit.sha}` : undefined;
+  
+  // Short reference to a commit, linked when possible
+  const renderCommit = (commit: IssueCommit) => (
+    <>
+      <a href={getCommitLink(commit)} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 hover:underline">
+        {commit.sha.substring(0, 7)}
+      </a>{' '}
+      {commit.message}
+    </>
+  );
+  
   // Get current issues to display (either from live updates or final results)
   const getIssuesToDisplay = () => {
     if (loading) {
@@ -323,30 +541,135 @@ const PRValidator: React.FC = () => {
     
     return [];
   };
-
+  
   return (
     <div className="max-w-5xl mx-auto w-full px-4 py-6">
       <h1 className="text-3xl font-bold mb-4 text-center">🦊 PR Migration Validator</h1>
-      <p className="text-center mb-6">Enter a GitHub PR link to validate the framework migration</p>
+      <p className="text-center mb-6">
+        {source === 'pr' && 'Enter a GitHub PR link to validate the framework migration'}
+        {source === 'refs' && 'Enter a repository and base...head refs or a commit SHA to validate a branch, a range or a single commit'}
+        {source === 'diff' && 'Paste or upload a diff (git diff or git format-patch output) to validate the framework migration'}
+        {source === 'batch' && 'Validate many PRs at once, from a list of links or the open PRs of a repository'}
+      </p>
       
-      <form onSubmit={handleSubmit} className="mb-8">
-        <div className="flex flex-col sm:flex-row gap-4">
-          <input
-            type="text"
-            value={prLink}
-            onChange={handleInputChange}
-            placeholder="https://github.com/owner/repo/pull/123"
-            className="flex-1 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-          <button 
-            type="submit" 
+      <div className="flex border-b mb-4">
+        {([['pr', 'Pull request'], ['refs', 'Refs'], ['diff', 'Diff'], ['batch', 'Batch']] as const).map(([tab, label]) => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => switchSource(tab)}
             disabled={loading}
-            className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+            className={`px-4 py-2 -mb-px border-b-2 ${source === tab ? 'border-blue-600 text-blue-600 font-medium' : 'border-transparent text-gray-600 hover:text-gray-800'}`}
           >
-            {loading ? 'Validating...' : 'Validate'}
+            {label}
           </button>
-        </div>
-      </form>
+        ))}
+      </div>
+      
+      {source === 'batch' && <BatchValidator />}
+      
+      {source === 'refs' && (
+        <form onSubmit={handleRefsSubmit} className="mb-8">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <input
+              type="text"
+              value={refRepo}
+              onChange={(e) => setRefRepo(e.target.value)}
+              placeholder="owner/repo"
+              className="sm:w-64 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={refRange}
+              onChange={(e) => setRefRange(e.target.value)}
+              placeholder="main...my-branch or a commit SHA"
+              className="flex-1 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button 
+              type="submit" 
+              disabled={loading}
+              className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Validating...' : 'Validate'}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={fullFile}
+              onChange={(e) => setFullFile(e.target.checked)}
+            />
+            Validate full file contents (also reports pre-existing issues outside the diff)
+          </label>
+        </form>
+      )}
+      
+      {source === 'diff' && (
+        <form onSubmit={handleDiffSubmit} className="mb-8">
+          <textarea
+            value={diffText}
+            onChange={(e) => setDiffText(e.target.value)}
+            placeholder="diff --git a/e2e/specs/example.spec.ts b/e2e/specs/example.spec.ts"
+            rows={10}
+            className="w-full px-4 py-2 border rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mt-3">
+            <input
+              type="file"
+              accept=".patch,.diff,text/x-patch,text/x-diff"
+              onChange={handleDiffFileChange}
+              className="text-sm text-gray-700"
+            />
+            <button 
+              type="submit" 
+              disabled={loading}
+              className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Validating...' : 'Validate'}
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            Only the added code is checked, and imports aren&apos;t resolved against the repository.
+          </p>
+        </form>
+      )}
+      
+      {source === 'pr' && (
+        <form onSubmit={handleSubmit} className="mb-8">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <input
+              type="text"
+              value={prLink}
+              onChange={handleInputChange}
+              placeholder="https://github.com/owner/repo/pull/123, owner/repo#123 or #123"
+              className="flex-1 px-4 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button 
+              type="submit" 
+              disabled={loading}
+              className="bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Validating...' : 'Validate'}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={fullFile}
+              onChange={(e) => setFullFile(e.target.checked)}
+            />
+            Validate full file contents (also reports pre-existing issues outside the diff)
+          </label>
+          <label className="flex items-center gap-2 mt-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={attributeCommits}
+              onChange={(e) => setAttributeCommits(e.target.checked)}
+            />
+            Attribute issues to the commits that introduced them (one extra request per commit)
+          </label>
+        </form>
+      )}
       
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6" role="alert">
@@ -354,7 +677,7 @@ const PRValidator: React.FC = () => {
         </div>
       )}
       
-      {loading && (
+      {loading && source === 'pr' && (
         <div className="border rounded-lg p-6 bg-gray-50 mb-6">
           <div className="mb-4">
             <h2 className="text-xl font-semibold mb-2">Validating PR in real time...</h2>
@@ -394,21 +717,42 @@ const PRValidator: React.FC = () => {
           <div className="space-y-6">
             {/* PR Information */}
             <div>
-              <h2 className="text-2xl font-semibold mb-2">PR Information</h2>
+              <h2 className="text-2xl font-semibold mb-2">{results?.ref ? 'Refs' : 'PR'} Information</h2>
               <div className="bg-white rounded p-4 border">
                 {prInfo ? (
                   <>
                     <p className="font-medium text-lg">
-                      <a href={prInfo.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                        {prInfo.title}
-                      </a>
+                      {prInfo.url ? (
+                        <a href={prInfo.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          {prInfo.title}
+                        </a>
+                      ) : (
+                        prInfo.title
+                      )}
                     </p>
                     <p>Author: <span className="font-medium">{prInfo.author}</span></p>
+                    {results?.ref && (
+                      <p>
+                        {results.ref.repo}: {results.ref.commits} commit(s) from <code>{results.ref.baseSha.substring(0, 7) || 'root'}</code> to <code>{prInfo.headSha.substring(0, 7)}</code>
+                      </p>
+                    )}
                   </>
                 ) : (
                   <p>Loading PR information...</p>
                 )}
                 
+                {appliedConfig && (
+                  <p>
+                    Config: <span className="font-medium">{appliedConfig.source ?? 'built-in defaults'}</span>
+                    {appliedConfig.disabledRules.length > 0 && (
+                      <span className="ml-2 text-sm text-gray-500">(disabled: {appliedConfig.disabledRules.join(', ')})</span>
+                    )}
+                    {appliedConfig.failOn && (
+                      <span className="ml-2 text-sm text-gray-500">(fails on {appliedConfig.failOn} and above)</span>
+                    )}
+                  </p>
+                )}
+                
                 <p>Files checked: <span className="font-medium">{loading ? processedFiles.length : (results?.filesChecked || 0)}</span>
                   {loading && totalFiles > 0 && !processingComplete && ` / ${totalFiles}`}
                 </p>
@@ -417,7 +761,72 @@ const PRValidator: React.FC = () => {
             
             {/* Validation Summary */}
             <div>
-              <h2 className="text-2xl font-semibold mb-2">Validation Summary</h2>
+              <h2 className="text-2xl font-semibold mb-2 flex items-center gap-3">
+                Validation Summary
+                {!loading && results?.verdict && (
+                  <span className={`px-2 py-0.5 rounded text-sm font-medium uppercase ${VERDICT_STYLES[results.verdict]}`}>{results.verdict}</span>
+                )}
+              </h2>
+              
+              {!loading && results && (
+                <div className="flex items-center gap-3 mb-4">
+                  {source === 'pr' && canPostReviews && (
+                    <button
+                      type="button"
+                      onClick={postReview}
+                      disabled={postingReview}
+                      className="bg-gray-800 text-white text-sm px-3 py-1 rounded hover:bg-gray-900 disabled:bg-gray-400"
+                    >
+                      {postingReview ? 'Posting review...' : 'Post review'}
+                    </button>
+                  )}
+                  {results.resultId && (
+                    <button
+                      type="button"
+                      onClick={copyResultLink}
+                      className="bg-white border border-gray-400 text-gray-800 text-sm px-3 py-1 rounded hover:bg-gray-50"
+                    >
+                      {linkCopied ? 'Link copied!' : 'Copy link'}
+                    </button>
+                  )}
+                  <select
+                    value={reportFormat}
+                    onChange={(e) => setReportFormat(e.target.value)}
+                    aria-label="Report format"
+                    className="border border-gray-400 text-sm px-2 py-1 rounded bg-white"
+                  >
+                    {REPORTERS.map(reporter => (
+                      <option key={reporter.format} value={reporter.format}>{reporter.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={downloadReport}
+                    className="bg-white border border-gray-400 text-gray-800 text-sm px-3 py-1 rounded hover:bg-gray-50"
+                  >
+                    Download report
+                  </button>
+                  {reviewMessage && <span className="text-sm text-gray-700">{reviewMessage}</span>}
+                </div>
+              )}
+              
+              {(uncheckedFiles.length > 0 || Boolean(results?.unlistedFiles)) && (
+                <div className="bg-red-50 border border-red-300 text-red-800 px-4 py-3 rounded mb-4">
+                  <p className="font-medium">
+                    ❔ {uncheckedFiles.length + (results?.unlistedFiles ?? 0)} file(s) could not be checked
+                  </p>
+                  <ul className="list-disc pl-5 mt-2 space-y-1 text-sm">
+                    {uncheckedFiles.map(file => (
+                      <li key={file.filename}>
+                        <span className="font-medium break-all">{file.filename}</span>: {file.reason}
+                      </li>
+                    ))}
+                    {Boolean(results?.unlistedFiles) && (
+                      <li>{results!.unlistedFiles} more file(s) beyond the 3000 GitHub lists for a PR</li>
+                    )}
+                  </ul>
+                </div>
+              )}
               
               {getIssuesToDisplay().length === 0 ? (
                 <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
@@ -432,16 +841,29 @@ const PRValidator: React.FC = () => {
                 <div className="bg-amber-100 border border-amber-400 text-amber-700 px-4 py-3 rounded mb-4">
                   <p className="font-medium">⚠️ Found {getIssuesToDisplay().length} issue(s) across {new Set(getIssuesToDisplay().map(i => i.file)).size} file(s)</p>
                   
+                  {!loading && source === 'pr' && getIssuesToDisplay().some(i => i.suggestedFix) && (
+                    <button
+                      type="button"
+                      onClick={downloadFixPatch}
+                      className="mt-2 bg-white border border-amber-400 text-amber-800 text-sm px-3 py-1 rounded hover:bg-amber-50"
+                    >
+                      Download fix patch ({getIssuesToDisplay().filter(i => i.suggestedFix).length} fixable)
+                    </button>
+                  )}
+                  
                   <div className="mt-3">
                     <p className="text-sm font-medium mb-2">Issues by check type:</p>
                     <ul className="list-disc pl-5 space-y-1">
-                      {Object.entries(CHECK_DESCRIPTIONS).map(([checkType, description]) => {
-                        const issuesCount = getIssuesToDisplay().filter(i => i.checkType === checkType).length;
+                      {rules.map(rule => {
+                        const issuesCount = getIssuesToDisplay().filter(i => i.checkType === rule.id).length;
                         if (issuesCount === 0) return null;
                         
+                        const severity = appliedConfig?.severities?.[rule.id] ?? rule.severity;
+                        
                         return (
-                          <li key={checkType}>
-                            <span className="font-medium">{description}:</span> {issuesCount} issue(s)
+                          <li key={rule.id}>
+                            <span className="font-medium">{rule.summary}:</span> {issuesCount} issue(s)
+                            <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${SEVERITY_STYLES[severity]}`}>{severity}</span>
                           </li>
                         );
                       })}
@@ -449,6 +871,37 @@ const PRValidator: React.FC = () => {
                   </div>
                 </div>
               )}
+              
+              {!loading && results?.resolvedIssues && results.resolvedIssues.length > 0 && (
+                <div className="bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded mb-4">
+                  <p className="font-medium">↩️ {results.resolvedIssues.length} issue(s) resolved during the PR</p>
+                  <ul className="list-disc pl-5 mt-2 space-y-2 text-sm">
+                    {results.resolvedIssues.map((issue, idx) => (
+                      <li key={idx}>
+                        <span className="font-medium break-all">{issue.file}</span>: <code className="bg-white p-1 rounded">{issue.importStatement}</code>
+                        <div className="text-xs mt-1">
+                          {issue.introducedBy && <>Introduced in {renderCommit(issue.introducedBy)}</>}
+                          {issue.resolvedBy ? <>, resolved in {renderCommit(issue.resolvedBy)}</> : ', no longer at the head'}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              
+              {!loading && results?.suppressedIssues && results.suppressedIssues.length > 0 && (
+                <div className="bg-gray-100 border border-gray-300 text-gray-700 px-4 py-3 rounded mb-4">
+                  <p className="font-medium">🔇 {results.suppressedIssues.length} finding(s) suppressed by a directive</p>
+                  <ul className="list-disc pl-5 mt-2 space-y-2 text-sm">
+                    {results.suppressedIssues.map((issue, idx) => (
+                      <li key={idx}>
+                        <span className="font-medium break-all">{issue.file}:{issue.line}</span> ({issue.checkType}): <code className="bg-white p-1 rounded">{issue.importStatement}</code>
+                        <div className="text-xs mt-1">Reason: {issue.suppression?.reason}</div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
             
             {/* All Checked Files */}
@@ -461,23 +914,24 @@ const PRValidator: React.FC = () => {
                     const isExpanded = expandedFiles[file] || false;
                     const fileDiffLink = getFileDiffLink(file);
                     const isCopied = copiedFile === file;
-                    const isE2e = isE2eFile(file);
+                    const report = fileReports[file];
+                    const skippedStatus = getFileSkippedStatus(file);
                     
                     return (
                       <li 
                         key={index}
-                        className={`border rounded ${hasIssue ? 'border-amber-300' : 'border-gray-200'} ${!isE2e ? 'opacity-60' : ''}`}
+                        className={`border rounded ${hasIssue ? 'border-amber-300' : 'border-gray-200'} ${skippedStatus ? 'opacity-60' : ''}`}
                       >
                         <div 
                           className={`p-3 flex justify-between items-center ${hasIssue ? 'bg-amber-50' : ''}`}
                         >
                           <div className="flex items-center flex-grow cursor-pointer" onClick={() => toggleFileExpanded(file)}>
-                            {isE2e ? (
+                            {!skippedStatus ? (
                               <span className={`mr-2 ${hasIssue ? 'text-amber-600' : 'text-green-600'}`}>
                                 {hasIssue ? '⚠️' : '✓'}
                               </span>
                             ) : (
-                              <span className="mr-2 text-gray-400" title="Not an e2e file, validation skipped">
+                              <span className="mr-2 text-gray-400" title={`Validation skipped: ${SKIPPED_LABELS[skippedStatus]}`}>
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
                                 </svg>
@@ -485,7 +939,14 @@ const PRValidator: React.FC = () => {
                             )}
                             <span className={`break-all ${hasIssue ? 'text-amber-800 font-medium' : ''}`}>
                               {file}
-                              {!isE2e && <span className="ml-2 text-xs text-gray-500">(validation skipped)</span>}
+                              {skippedStatus && <span className="ml-2 text-xs text-gray-500">(validation skipped: {SKIPPED_LABELS[skippedStatus]})</span>}
+                              {report && (
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {report.changeStatus}{' '}
+                                  <span className="text-green-700">+{report.additions}</span>{' '}
+                                  <span className="text-red-700">-{report.deletions}</span>
+                                </span>
+                              )}
                             </span>
                           </div>
                           <div className="flex items-center ml-2">
@@ -522,179 +983,56 @@ const PRValidator: React.FC = () => {
                         
                         {isExpanded && (
                           <div className="border-t p-3 bg-gray-50">
-                            {!isE2e ? (
+                            {skippedStatus ? (
                               <div className="flex items-center text-gray-500">
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                                 </svg>
-                                <span>This file is not in the e2e/ directory. Validation checks are skipped for non-e2e files.</span>
+                                <span>{getSkippedReason(skippedStatus)}</span>
                               </div>
                             ) : (
                               <div className="mb-2 font-medium">Checks:</div>
                             )}
                             
-                            {isE2e && (
+                            {!skippedStatus && (
                               <div className="pl-4 border-l-4 border-gray-300 space-y-4">
-                                {/* Assertions framework path check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'assertions-framework') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'assertions-framework') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['assertions-framework']}</span>
-                                  </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'assertions-framework') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'assertions-framework').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
-                                    </div>
-                                  )}
-                                </div>
-                                
-                                {/* Assertions no .ts extension check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'assertions-no-ts') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'assertions-no-ts') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['assertions-no-ts']}</span>
-                                  </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'assertions-no-ts') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'assertions-no-ts').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
-                                    </div>
-                                  )}
-                                </div>
-                                
-                                {/* Gestures framework path check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'gestures-framework') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'gestures-framework') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['gestures-framework']}</span>
-                                  </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'gestures-framework') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'gestures-framework').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
+                                {rules.map(rule => (
+                                  <div key={rule.id} className="mb-2">
+                                    <div className="flex items-center">
+                                      <span className={`mr-2 ${hasIssuesForCheckType(file, rule.id) ? 'text-amber-600' : 'text-green-600'}`}>
+                                        {hasIssuesForCheckType(file, rule.id) ? '⚠️' : '✓'}
+                                      </span>
+                                      <span>{rule.summary}</span>
                                     </div>
-                                  )}
-                                </div>
-                                
-                                {/* Fixtures framework path check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'fixtures-framework') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'fixtures-framework') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['fixtures-framework']}</span>
+                                    
+                                    {hasIssuesForCheckType(file, rule.id) && (
+                                      <div className="mt-2 pl-6">
+                                        <span className="text-sm font-medium">Found issues:</span>
+                                        <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
+                                          {getIssuesByCheckType(file, rule.id).map((issue, idx) => (
+                                            <li key={idx}>
+                                              Line {issue.line}{issue.range && `:${issue.range.startColumn}`}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
+                                              {issue.origin === 'pre-existing' && (
+                                                <span className="ml-2 text-xs text-gray-500">(pre-existing)</span>
+                                              )}
+                                              {issue.introducedBy && (
+                                                <div className="text-xs text-gray-600 mt-1">Introduced in {renderCommit(issue.introducedBy)}</div>
+                                              )}
+                                              {issue.message && (
+                                                <div className="text-xs text-gray-600 mt-1">{issue.message}</div>
+                                              )}
+                                              {issue.suggestedFix && (
+                                                <div className="mt-1">
+                                                  Fix: <code className="bg-green-50 p-1 rounded">{issue.suggestedFix.preview}</code>
+                                                </div>
+                                              )}
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      </div>
+                                    )}
                                   </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'fixtures-framework') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'fixtures-framework').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
-                                    </div>
-                                  )}
-                                </div>
-
-                                {/* Test withFixtures check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'test-withfixtures') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'test-withfixtures') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['test-withfixtures']}</span>
-                                  </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'test-withfixtures') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'test-withfixtures').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
-                                    </div>
-                                  )}
-                                </div>
-
-                                {/* Matchers framework path check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'matchers-framework') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'matchers-framework') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['matchers-framework']}</span>
-                                  </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'matchers-framework') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'matchers-framework').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
-                                    </div>
-                                  )}
-                                </div>
-
-                                {/* Fixture utils framework path check */}
-                                <div className="mb-2">
-                                  <div className="flex items-center">
-                                    <span className={`mr-2 ${hasIssuesForCheckType(file, 'fixture-utils-framework') ? 'text-amber-600' : 'text-green-600'}`}>
-                                      {hasIssuesForCheckType(file, 'fixture-utils-framework') ? '⚠️' : '✓'}
-                                    </span>
-                                    <span>{CHECK_DESCRIPTIONS['fixture-utils-framework']}</span>
-                                  </div>
-                                  
-                                  {hasIssuesForCheckType(file, 'fixture-utils-framework') && (
-                                    <div className="mt-2 pl-6">
-                                      <span className="text-sm font-medium">Found issues:</span>
-                                      <ul className="list-disc pl-5 space-y-1 mt-1 text-sm">
-                                        {getIssuesByCheckType(file, 'fixture-utils-framework').map((issue, idx) => (
-                                          <li key={idx}>
-                                            Line {issue.line}: <code className="bg-amber-50 p-1 rounded">{issue.importStatement}</code>
-                                          </li>
-                                        ))}
-                                      </ul>
-                                    </div>
-                                  )}
-                                </div>
+                                ))}
                               </div>
                             )}
                           </div>
@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRules } from '@/hooks/useRules';
+import { getReporter, REPORTERS } from '@/utils/reporters';
+import { applyRuleSettings, getIssueSeverity } from '@/utils/severity';
+import type { Severity, StoredValidationResult, Verdict } from '@/utils/types';
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+  info: 'bg-blue-100 text-blue-800'
+};
+
+const VERDICT_STYLES: Record<Verdict, string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800'
+};
+
+interface ValidationResultViewProps {
+  id: string;
+}
+
+// Read-only view of a stored validation result, opened from its permalink
+const ValidationResultView: React.FC<ValidationResultViewProps> = ({ id }) => {
+  const [stored, setStored] = useState<StoredValidationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const [reportFormat, setReportFormat] = useState<string>('markdown');
+  const rules = useRules();
+  
+  useEffect(() => {
+    fetch(`/api/results/${encodeURIComponent(id)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.result) {
+          throw new Error(data.message || 'Failed to load the result');
+        }
+        setStored(data);
+      })
+      .catch(err => setError(err.message || 'Failed to load the result'));
+  }, [id]);
+  
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(err => console.error('Failed to copy link: ', err));
+  };
+  
+  const downloadReport = () => {
+    const reporter = getReporter(reportFormat);
+    if (!stored || !reporter) return;
+    
+    const report = reporter.render(stored.result, appliedRules);
+    const url = URL.createObjectURL(new Blob([report], { type: reporter.contentType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `migration-validator.${reporter.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  const getRuleSummary = (ruleId: string) => rules.find(rule => rule.id === ruleId)?.summary ?? ruleId;
+  
+  const result = stored?.result;
+  // The rules as the validation ran them, with the repository's disabled rules and severities
+  const appliedRules = result ? applyRuleSettings(rules, result.config) : rules;
+  const issueFiles = result ? [...new Set(result.issues.map(issue => issue.file))] : [];
+  const unchecked = (result?.uncheckedFiles?.length ?? 0) + (result?.unlistedFiles ?? 0);
+  
+  return (
+    <div className="max-w-4xl mx-auto w-full px-4 py-6">
+      <h1 className="text-3xl font-bold mb-6 text-center">🦊 Validation Result</h1>
+      
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      
+      {!error && !result && <p className="text-center text-gray-500">Loading result...</p>}
+      
+      {stored && result && (
+        <div className="border rounded-lg p-6 bg-gray-50 space-y-6">
+          <div>
+            <h2 className="text-2xl font-semibold mb-2 flex items-center gap-3">
+              {result.ref ? 'Refs' : 'PR'} Information
+              {result.verdict && (
+                <span className={`px-2 py-0.5 rounded text-sm font-medium uppercase ${VERDICT_STYLES[result.verdict]}`}>{result.verdict}</span>
+              )}
+            </h2>
+            <div className="space-y-1">
+              <p>
+                Title:{' '}
+                {result.pr.url ? (
+                  <a href={result.pr.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{result.pr.title}</a>
+                ) : (
+                  <span className="font-medium">{result.pr.title}</span>
+                )}
+              </p>
+              <p>Author: <span className="font-medium">{result.pr.author}</span></p>
+              {result.pr.headSha && <p>Head commit: <code className="text-sm">{result.pr.headSha.substring(0, 7)}</code></p>}
+              {result.ref && (
+                <p>Refs: <span className="font-medium">{result.ref.base}...{result.ref.head}</span> ({result.ref.commits} commit(s))</p>
+              )}
+              <p>Config: <span className="font-medium">{result.config.source ?? 'built-in defaults'}</span>
+                {result.config.failOn && <span className="ml-2 text-sm text-gray-500">(fails on {result.config.failOn} and above)</span>}
+              </p>
+              <p>Files checked: <span className="font-medium">{result.filesChecked}</span></p>
+              <p className="text-sm text-gray-500">
+                Validated {new Date(stored.savedAt).toLocaleString()}
+                {stored.expiresAt && `, link expires ${new Date(stored.expiresAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          </div>
+          
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={copyLink}
+              className="bg-gray-800 text-white text-sm px-3 py-1 rounded hover:bg-gray-900"
+            >
+              {linkCopied ? 'Link copied!' : 'Copy link'}
+            </button>
+            <select
+              value={reportFormat}
+              onChange={(e) => setReportFormat(e.target.value)}
+              aria-label="Report format"
+              className="border border-gray-400 text-sm px-2 py-1 rounded bg-white"
+            >
+              {REPORTERS.map(reporter => (
+                <option key={reporter.format} value={reporter.format}>{reporter.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={downloadReport}
+              className="bg-white border border-gray-400 text-gray-800 text-sm px-3 py-1 rounded hover:bg-gray-50"
+            >
+              Download report
+            </button>
+          </div>
+          
+          <div>
+            <h2 className="text-2xl font-semibold mb-2">Validation Summary</h2>
+            
+            {unchecked > 0 && (
+              <div className="bg-red-50 border border-red-300 text-red-800 px-4 py-3 rounded mb-4">
+                <p className="font-medium">❔ {unchecked} file(s) could not be checked</p>
+                <ul className="list-disc pl-5 mt-2 space-y-1 text-sm">
+                  {result.uncheckedFiles?.map(file => (
+                    <li key={file.filename}>
+                      <span className="font-medium break-all">{file.filename}</span>: {file.reason}
+                    </li>
+                  ))}
+                  {Boolean(result.unlistedFiles) && (
+                    <li>{result.unlistedFiles} more file(s) beyond the 3000 GitHub lists for a PR</li>
+                  )}
+                </ul>
+              </div>
+            )}
+            
+            {result.issues.length === 0 ? (
+              <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+                <p className="font-medium">✅ All checks passed successfully!</p>
+              </div>
+            ) : (
+              <div className="bg-amber-100 border border-amber-400 text-amber-700 px-4 py-3 rounded mb-4">
+                <p className="font-medium">⚠️ Found {result.issues.length} issue(s) across {issueFiles.length} file(s)</p>
+              </div>
+            )}
+            
+            {result.suppressedIssues && result.suppressedIssues.length > 0 && (
+              <div className="bg-gray-100 border border-gray-300 text-gray-700 px-4 py-3 rounded mb-4">
+                <p className="font-medium">🔇 {result.suppressedIssues.length} finding(s) suppressed by a directive</p>
+                <ul className="list-disc pl-5 mt-2 space-y-2 text-sm">
+                  {result.suppressedIssues.map((issue, idx) => (
+                    <li key={idx}>
+                      <span className="font-medium break-all">{issue.file}:{issue.line}</span> ({issue.checkType}): <code className="bg-white p-1 rounded">{issue.importStatement}</code>
+                      <div className="text-xs mt-1">Reason: {issue.suppression?.reason}</div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
+            {result.resolvedIssues && result.resolvedIssues.length > 0 && (
+              <div className="bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded mb-4">
+                <p className="font-medium">↩️ {result.resolvedIssues.length} issue(s) resolved during the PR</p>
+                <ul className="list-disc pl-5 mt-2 space-y-2 text-sm">
+                  {result.resolvedIssues.map((issue, idx) => (
+                    <li key={idx}>
+                      <span className="font-medium break-all">{issue.file}</span>: <code className="bg-white p-1 rounded">{issue.importStatement}</code>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+          
+          {issueFiles.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-semibold mb-2">Issues</h2>
+              <div className="space-y-4">
+                {issueFiles.map(file => (
+                  <div key={file} className="border border-amber-300 rounded bg-white p-4">
+                    <p className="font-medium break-all mb-2">{file}</p>
+                    <ul className="space-y-3">
+                      {result.issues.filter(issue => issue.file === file).map((issue, idx) => {
+                        const severity = getIssueSeverity(issue, appliedRules);
+                        
+                        return (
+                          <li key={idx} className="text-sm">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-gray-500">Line {issue.line}</span>
+                              <span className={`px-1.5 py-0.5 rounded text-xs ${SEVERITY_STYLES[severity]}`}>{severity}</span>
+                              <span className="font-medium">{issue.message ?? getRuleSummary(issue.checkType)}</span>
+                              {issue.origin === 'pre-existing' && <span className="text-xs text-gray-500">(pre-existing)</span>}
+                            </div>
+                            <code className="block bg-gray-100 p-2 mt-1 rounded whitespace-pre-wrap break-all">{issue.importStatement}</code>
+                            {issue.suggestedFix && (
+                              <div className="mt-1 text-xs text-green-800">Suggested fix: <code>{issue.suggestedFix.preview}</code></div>
+                            )}
+                            {issue.introducedBy && (
+                              <div className="mt-1 text-xs text-gray-600">Introduced in {issue.introducedBy.sha.substring(0, 7)} {issue.introducedBy.message}</div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationResultView;
@@ -1,58 +1,11 @@
 'use client';
 
 import { useState } from 'react';
-
-interface RuleInfo {
-  id: string;
-  title: string;
-  description: string;
-}
+import { useRules } from '@/hooks/useRules';
 
 const ValidationRules: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
-
-  const rules: RuleInfo[] = [
-    {
-      id: 'assertions-framework',
-      title: 'Assertions Framework Path',
-      description: 'All Assertions imports must include the /framework path. This ensures that the correct framework version of the Assertions module is used.'
-    },
-    {
-      id: 'assertions-no-ts',
-      title: 'No .ts Extension in Assertions Imports',
-      description: 'Assertions imports should not include the .ts file extension. TypeScript extensions should be omitted in import statements for better compatibility with bundlers.'
-    },
-    {
-      id: 'gestures-framework',
-      title: 'Gestures Framework Path',
-      description: 'All gestures imports must include the /framework path. This ensures that the correct framework version of the gestures module is used.'
-    },
-    {
-      id: 'fixtures-framework',
-      title: 'withFixtures Framework Path',
-      description: 'All withFixtures imports must come from /framework/fixtures. This ensures that the correct framework version of the fixtures module is used.'
-    },
-    {
-      id: 'matchers-framework',
-      title: 'Matchers Framework Path',
-      description: 'All Matchers imports must include the /framework path. This ensures that the correct framework version of the Matchers module is used.'
-    },
-    {
-      id: 'fixture-utils-framework',
-      title: 'Fixture Utilities Framework Path',
-      description: 'All fixture utilities (FixtureBuilder, FixtureHelper, FixtureUtils) must include the /framework path. This ensures that the correct framework versions of these utilities are used.'
-    },
-    {
-      id: 'getter-type',
-      title: 'Getter Method Types',
-      description: 'Getter methods must have proper type prefixes or return type annotations. Valid types include DetoxElement, TappableElement, TypableElement, WebElement, IndexableNativeElement, NativeElement, SystemElement, DeviceLaunchAppConfig, DetoxMatcher, or Promise versions of these types.'
-    },
-    {
-      id: 'test-withfixtures',
-      title: 'Test Files with withFixtures',
-      description: 'Every test file (ending in .spec.ts) must use withFixtures inside each it() block. This ensures that all tests are using the fixtures framework correctly.'
-    }
-  ];
+  const rules = useRules();
 
   return (
     <div className="relative">
@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RuleInfo } from '@/utils/rules/types';
+
+/**
+ * Fetch the validation rules from the server
+ * @returns The rules, empty until they are loaded
+ */
+export const useRules = (): RuleInfo[] => {
+  const [rules, setRules] = useState<RuleInfo[]>([]);
+  
+  useEffect(() => {
+    fetch('/api/rules')
+      .then(response => response.json())
+      .then(data => setRules(data.rules))
+      .catch(err => console.error('Failed to load validation rules: ', err));
+  }, []);
+  
+  return rules;
+};
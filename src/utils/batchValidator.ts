@@ -0,0 +1,121 @@
+import { mapConcurrent } from './concurrency';
+import { octokit } from './github';
+import { listPrFiles, parsePrReference, parseGitHubRepo, validatePr } from './prValidator';
+import type { BatchPrResult, BatchQuery, BatchReport, ValidationOptions, ValidationResult } from './types';
+
+// PRs validated at the same time
+const BATCH_CONCURRENCY = 4;
+
+// Largest number of PRs validated in one batch
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Callbacks notified while a batch is validated
+ */
+export interface BatchListener {
+  started?: (prLink: string) => void;
+  // The full validation result is only given when the validation succeeded
+  finished?: (result: BatchPrResult, validation?: ValidationResult) => void;
+}
+
+/**
+ * Find the open PRs of a repository matching a query
+ * @param query The repository and filters
+ * @returns The PR URLs, most recently created first
+ */
+export const findPullRequests = async (query: BatchQuery): Promise<string[]> => {
+  const { owner, repo } = parseGitHubRepo(query.repo);
+  
+  const pullRequests = await octokit.paginate(octokit.rest.pulls.list, {
+    owner,
+    repo,
+    state: 'open',
+    per_page: 100
+  });
+  
+  const labelled = query.label
+    ? pullRequests.filter(pr => pr.labels.some(label => label.name.toLowerCase() === query.label!.toLowerCase()))
+    : pullRequests;
+  
+  if (!query.touching) {
+    return labelled.map(pr => pr.html_url);
+  }
+  
+  // Listing the files is one request per PR, so only do it for PRs matching the other filters
+  const touching = await mapConcurrent(labelled, BATCH_CONCURRENCY, async pr => {
+    const files = await listPrFiles(owner, repo, pr.number);
+    return files.some(file => file.filename.startsWith(query.touching!));
+  });
+  
+  return labelled.filter((_, index) => touching[index]).map(pr => pr.html_url);
+};
+
+/**
+ * Summarize the validation result of a PR for the batch report
+ * @param prLink The GitHub PR URL
+ * @param result The validation result
+ * @returns The batch result
+ */
+const toBatchResult = (prLink: string, result: ValidationResult): BatchPrResult => {
+  return {
+    prLink,
+    pr: result.pr,
+    filesChecked: result.filesChecked,
+    issueCount: result.issues.length,
+    issuesByRule: result.counts.byRule,
+    verdict: result.verdict
+  };
+};
+
+/**
+ * Validate many PRs, a few at a time, and aggregate the results.
+ * A PR that can't be validated is reported with an error verdict instead of failing the batch.
+ * @param prLinks The GitHub PR URLs
+ * @param options Validation options
+ * @param listener Callbacks notified of the progress
+ * @returns The aggregated report
+ */
+export const validatePrBatch = async (
+  prLinks: string[],
+  options: ValidationOptions = {},
+  listener: BatchListener = {}
+): Promise<BatchReport> => {
+  const results = await mapConcurrent(prLinks, BATCH_CONCURRENCY, async (prLink): Promise<BatchPrResult> => {
+    listener.started?.(prLink);
+    
+    let result: BatchPrResult;
+    let validation: ValidationResult | undefined;
+    try {
+      parsePrReference(prLink);
+      validation = await validatePr(prLink, options);
+      result = toBatchResult(prLink, validation);
+    } catch (error: any) {
+      result = {
+        prLink,
+        filesChecked: 0,
+        issueCount: 0,
+        issuesByRule: {},
+        verdict: 'error',
+        error: error.message
+      };
+    }
+    
+    listener.finished?.(result, validation);
+    return result;
+  });
+  
+  const issuesByRule: Record<string, number> = {};
+  for (const result of results) {
+    for (const [ruleId, count] of Object.entries(result.issuesByRule)) {
+      issuesByRule[ruleId] = (issuesByRule[ruleId] ?? 0) + count;
+    }
+  }
+  
+  return {
+    results,
+    passed: results.filter(result => result.verdict === 'pass').length,
+    failed: results.filter(result => result.verdict === 'fail').length,
+    errored: results.filter(result => result.verdict === 'error').length,
+    issuesByRule
+  };
+};
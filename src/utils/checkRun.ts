@@ -0,0 +1,177 @@
+import { octokit } from './github';
+import { recordValidation } from './history';
+import { parsePrReference, validatePr } from './prValidator';
+import { saveResult } from './resultStore';
+import { getRule, RULES, Severity } from './rules';
+import { formatSeverityCounts, getIssueSeverity } from './severity';
+import type { Issue, ValidationOptions, ValidationResult } from './types';
+
+// Name of the check run shown in the PR's Checks tab
+export const CHECK_RUN_NAME = 'PR Migration Validator';
+
+// GitHub accepts at most 50 annotations per request
+const ANNOTATIONS_PER_REQUEST = 50;
+
+// Longest check run output summary GitHub accepts
+const MAX_SUMMARY_LENGTH = 65535;
+
+const ANNOTATION_LEVELS: Record<Severity, 'failure' | 'warning' | 'notice'> = {
+  error: 'failure',
+  warning: 'warning',
+  info: 'notice'
+};
+
+export interface CheckRunSummary {
+  checkRunId: number;
+  url: string;
+  conclusion: 'success' | 'failure';
+  annotations: number;
+  // Id of the stored result, shared at /results/<id>
+  resultId?: string;
+}
+
+/**
+ * Convert an issue to a check run annotation
+ * @param issue The issue
+ * @returns The annotation
+ */
+export const toAnnotation = (issue: Issue) => {
+  const rule = getRule(issue.checkType);
+  const startLine = issue.range?.startLine ?? (typeof issue.line === 'number' ? issue.line : 1);
+  const endLine = issue.range?.endLine ?? startLine;
+  
+  // GitHub rejects columns on annotations that span several lines
+  const columns = issue.range && issue.range.startLine === issue.range.endLine
+    ? { start_column: issue.range.startColumn, end_column: issue.range.endColumn }
+    : {};
+  
+  return {
+    path: issue.file,
+    start_line: startLine,
+    end_line: endLine,
+    ...columns,
+    annotation_level: ANNOTATION_LEVELS[getIssueSeverity(issue, RULES)],
+    title: rule?.title ?? issue.checkType,
+    message: [rule?.summary, issue.message, issue.importStatement].filter(Boolean).join('\n'),
+    ...(issue.suggestedFix && { raw_details: `Suggested fix:\n${issue.suggestedFix.preview}` })
+  };
+};
+
+/**
+ * Build the check run output summary from a validation result
+ * @param result The validation result
+ * @returns The summary in markdown
+ */
+export const buildCheckSummary = (result: ValidationResult): string => {
+  const lines = [`Validated ${result.filesChecked} file(s) with config: ${result.config.source ?? 'built-in defaults'}.`, ''];
+  
+  const unchecked = result.uncheckedFiles.length + (result.unlistedFiles ?? 0);
+  if (unchecked > 0) {
+    lines.push(`❔ ${unchecked} file(s) could not be checked:`, '');
+    lines.push(...result.uncheckedFiles.map(file => `- \`${file.filename}\`: ${file.reason}`));
+    if (result.unlistedFiles) {
+      lines.push(`- ${result.unlistedFiles} more file(s) beyond the 3000 GitHub lists for a PR`);
+    }
+    lines.push('');
+  }
+  
+  if (result.suppressedIssues.length > 0) {
+    lines.push(`🔇 ${result.suppressedIssues.length} finding(s) suppressed:`, '');
+    lines.push(...result.suppressedIssues.map(issue =>
+      `- \`${issue.file}:${issue.line}\` (\`${issue.checkType}\`): ${issue.suppression?.reason}`
+    ));
+    lines.push('');
+  }
+  
+  if (result.issues.length === 0) {
+    lines.push('✅ All checks passed successfully!');
+    return lines.join('\n');
+  }
+  
+  lines.push(`${formatSeverityCounts(result.counts)}, failing on ${result.config.failOn} and above.`, '');
+  lines.push('| Rule | Severity | Issues |', '| --- | --- | ---: |');
+  for (const rule of RULES) {
+    const ruleIssues = result.issues.filter(issue => issue.checkType === rule.id);
+    if (ruleIssues.length > 0) {
+      lines.push(`| ${rule.summary} (\`${rule.id}\`) | ${getIssueSeverity(ruleIssues[0], RULES)} | ${ruleIssues.length} |`);
+    }
+  }
+  
+  return lines.join('\n');
+};
+
+/**
+ * Shorten a check run summary to the length GitHub accepts
+ * @param summary The summary in markdown
+ * @returns The summary, cut at the last full line that fits when it is too long
+ */
+export const truncateSummary = (summary: string): string => {
+  if (summary.length <= MAX_SUMMARY_LENGTH) {
+    return summary;
+  }
+  
+  const notice = '\n\n… Summary truncated, see the annotations or the validation result for the full list.';
+  const cut = summary.substring(0, MAX_SUMMARY_LENGTH - notice.length);
+  return `${cut.substring(0, Math.max(0, cut.lastIndexOf('\n')))}${notice}`;
+};
+
+/**
+ * Publish a validation result as a new check run on the PR head commit.
+ * Annotations can't be removed from a check run, so every validation gets its own run
+ * and GitHub shows the latest one.
+ * @param result The validation result of the PR
+ * @returns The published check run
+ */
+export const publishValidationCheckRun = async (result: ValidationResult): Promise<CheckRunSummary> => {
+  const { owner, repo } = parsePrReference(result.pr.url);
+  const headSha = result.pr.headSha;
+  
+  const conclusion = result.verdict === 'fail' ? 'failure' : 'success';
+  const title = result.issues.length === 0
+    ? 'All migration checks passed'
+    : `${result.issues.length} issue(s) found${result.verdict === 'pass' ? ', none blocking' : ''}`;
+  const summary = truncateSummary(buildCheckSummary(result));
+  const annotations = result.issues.map(toAnnotation);
+  
+  const { data: checkRun } = await octokit.rest.checks.create({
+    owner,
+    repo,
+    name: CHECK_RUN_NAME,
+    head_sha: headSha,
+    status: 'completed',
+    conclusion,
+    output: { title, summary, annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST) }
+  });
+  
+  // Annotations sent in later updates are appended to the earlier ones
+  for (let i = ANNOTATIONS_PER_REQUEST; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+    await octokit.rest.checks.update({
+      owner,
+      repo,
+      check_run_id: checkRun.id,
+      output: { title, summary, annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST) }
+    });
+  }
+  
+  return {
+    checkRunId: checkRun.id,
+    url: checkRun.html_url ?? '',
+    conclusion,
+    annotations: annotations.length,
+    resultId: result.resultId
+  };
+};
+
+/**
+ * Validate a PR, record and store the result, and publish it as a check run on its head commit
+ * @param prLink The GitHub PR URL
+ * @param options Validation options
+ * @returns The published check run
+ */
+export const publishCheckRun = async (prLink: string, options: ValidationOptions = {}): Promise<CheckRunSummary> => {
+  const result = await validatePr(prLink, options);
+  await recordValidation(result);
+  result.resultId = await saveResult(result, options);
+  
+  return publishValidationCheckRun(result);
+};
@@ -0,0 +1,119 @@
+import { octokit } from './github';
+import { parsePrReference, PrValidationContext, validatePrFiles } from './prValidator';
+import { getCommitWithFiles } from './refValidator';
+import type { Issue, IssueCommit, PrFile, ValidationResult } from './types';
+
+/**
+ * Identify an issue across commits: its line moves as commits add code around it, its code doesn't
+ * @param issue The issue
+ * @returns The key of the issue
+ */
+const getIssueKey = (issue: Issue): string =>
+  [issue.file, issue.checkType, issue.importStatement.trim()].join('\0');
+
+/**
+ * Collapse the whitespace of a piece of code, as import statements are stored
+ * @param code The code
+ * @returns The normalized code
+ */
+const normalizeCode = (code: string): string => code.replace(/\s+/g, ' ').trim();
+
+/**
+ * Check whether a commit deletes the offending code of an issue
+ * @param files The files changed by the commit
+ * @param issue The issue
+ * @returns boolean indicating if the commit removes the issue
+ */
+const removesIssue = (files: PrFile[], issue: Issue): boolean => {
+  const code = normalizeCode(issue.importStatement);
+  
+  return files.some(file => {
+    // Moving the file away removes the code from where the issue was reported
+    if (file.status === 'renamed' && file.previous_filename === issue.file) {
+      return true;
+    }
+    
+    if (file.filename !== issue.file) {
+      return false;
+    }
+    
+    // Multi-line statements span several deleted lines, so look for the code in all of them
+    const deleted = (file.patch ?? '')
+      .split('\n')
+      .filter(line => line.startsWith('-'))
+      .map(line => line.substring(1));
+    
+    return file.status === 'removed' || normalizeCode(deleted.join('\n')).includes(code);
+  });
+};
+
+/**
+ * Walk the commits of a PR to find the commit that introduced each issue of its validation,
+ * and the issues a commit introduced that a later commit resolved
+ * @param prLink The GitHub PR URL
+ * @param result The validation result of the PR
+ * @param context The context the PR was validated with, whose rules are reused for its commits
+ * @returns The result with the introducing commit set on its issues, and the issues resolved during the PR
+ */
+export const attributeIssuesToCommits = async (
+  prLink: string,
+  result: ValidationResult,
+  context: PrValidationContext
+): Promise<ValidationResult> => {
+  const { owner, repo, pullNumber } = parsePrReference(prLink);
+  
+  // GitHub lists at most 250 commits of a PR
+  const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+  
+  const finalKeys = new Set(result.issues.map(getIssueKey));
+  
+  // Latest commit adding the code of each issue, and the issues added but not there at the head
+  const introducedBy = new Map<string, IssueCommit>();
+  const pending = new Map<string, Issue>();
+  const resolvedIssues: Issue[] = [];
+  
+  // A merge commit brings in code from the base branch, which no commit of the PR introduced or resolved
+  for (const { sha } of commits.filter(({ parents }) => parents.length <= 1)) {
+    const { commit, files } = await getCommitWithFiles(owner, repo, sha);
+    const commitInfo: IssueCommit = {
+      sha: commit.sha,
+      message: commit.commit.message.split('\n')[0]
+    };
+    
+    for (const [key, issue] of pending) {
+      if (removesIssue(files, issue)) {
+        resolvedIssues.push({ ...issue, resolvedBy: commitInfo });
+        pending.delete(key);
+      }
+    }
+    
+    // Rules of the PR head; each commit diff only reports the code it adds. The tree of the PR head
+    // doesn't match the commit, so imports aren't resolved and those issues aren't attributed.
+    const { issues } = await validatePrFiles(
+      { ...context, baseSha: commit.parents[0]?.sha ?? '', tree: undefined, options: { fullFile: false } },
+      files
+    );
+    for (const issue of issues) {
+      const key = getIssueKey(issue);
+      introducedBy.set(key, commitInfo);
+      
+      if (!finalKeys.has(key)) {
+        pending.set(key, { ...issue, introducedBy: commitInfo });
+      }
+    }
+  }
+  
+  // Code gone at the head without a commit recognizably deleting it is resolved all the same
+  resolvedIssues.push(...pending.values());
+  
+  return {
+    ...result,
+    issues: result.issues.map(issue => ({ ...issue, introducedBy: introducedBy.get(getIssueKey(issue)) })),
+    resolvedIssues
+  };
+};
@@ -0,0 +1,24 @@
+/**
+ * Map items through an async function, running at most a given number of calls at the same time
+ * @param items The items
+ * @param limit The maximum number of concurrent calls
+ * @param fn The function to call for each item
+ * @returns The results, in the order of the items
+ */
+export const mapConcurrent = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }));
+  
+  return results;
+};
@@ -0,0 +1,120 @@
+import type { PrFile } from './types';
+
+/**
+ * Strip the a/ or b/ prefix git adds to the paths in a diff
+ * @param path The path from the diff
+ * @returns The path relative to the repository root, or undefined for /dev/null
+ */
+const stripPathPrefix = (path: string): string | undefined => {
+  // Paths may be followed by a tab and a timestamp
+  const clean = path.split('\t')[0].trim();
+  
+  if (clean === '/dev/null') {
+    return undefined;
+  }
+  
+  return clean.replace(/^[ab]\//, '');
+};
+
+/**
+ * Split a unified diff into file entries shaped like the ones of the GitHub PR files API,
+ * where the patch of each file starts at its first hunk header.
+ * Hunks are read by their line counts, so anything around the diff (commit messages and
+ * signatures of git format-patch output) is ignored.
+ * @param diff The output of git diff or git format-patch
+ * @returns The file entries
+ */
+export const parseUnifiedDiff = (diff: string): PrFile[] => {
+  const files: PrFile[] = [];
+  let current: { file: PrFile; hunks: string[]; additions: number; deletions: number } | undefined;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  
+  const finish = () => {
+    if (current) {
+      if (current.hunks.length > 0) {
+        current.file.patch = current.hunks.join('\n');
+      }
+      files.push({ ...current.file, additions: current.additions, deletions: current.deletions });
+    }
+    current = undefined;
+  };
+  
+  const lines = diff.split(/\r?\n/);
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    
+    // Inside a hunk, every line belongs to it until its line counts are used up
+    if (current && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith('+')) {
+        newRemaining--;
+        current.additions++;
+      } else if (line.startsWith('-')) {
+        oldRemaining--;
+        current.deletions++;
+      } else if (!line.startsWith('\\')) {
+        // Context line, some tools strip the leading space of empty ones
+        oldRemaining--;
+        newRemaining--;
+      }
+      current.hunks.push(line);
+      continue;
+    }
+    
+    if (line.startsWith('diff --git ')) {
+      finish();
+      // Used for binary files, which have no ---/+++ lines
+      const header = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+      current = { file: { filename: header?.[2] ?? '', status: 'modified' }, hunks: [], additions: 0, deletions: 0 };
+      continue;
+    }
+    
+    // Plain unified diffs start each file at the ---/+++ lines
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && (!current || current.hunks.length > 0)) {
+      finish();
+      current = { file: { filename: '', status: 'modified' }, hunks: [], additions: 0, deletions: 0 };
+    }
+    
+    if (!current) {
+      continue;
+    }
+    
+    const hunkHeader = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      oldRemaining = hunkHeader[1] !== undefined ? parseInt(hunkHeader[1]) : 1;
+      newRemaining = hunkHeader[2] !== undefined ? parseInt(hunkHeader[2]) : 1;
+      current.hunks.push(line);
+    } else if (line.startsWith('\\') && current.hunks.length > 0) {
+      // "\ No newline at end of file" after the last line of a hunk
+      current.hunks.push(line);
+    } else if (current.hunks.length === 0) {
+      if (line.startsWith('new file mode')) {
+        current.file.status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        current.file.status = 'removed';
+      } else if (line.startsWith('rename from ')) {
+        current.file.status = 'renamed';
+        current.file.previous_filename = line.substring('rename from '.length);
+      } else if (line.startsWith('--- ')) {
+        const path = stripPathPrefix(line.substring(4));
+        if (path === undefined) {
+          current.file.status = 'added';
+        } else if (!current.file.filename) {
+          current.file.filename = path;
+        }
+      } else if (line.startsWith('+++ ')) {
+        const path = stripPathPrefix(line.substring(4));
+        if (path === undefined) {
+          current.file.status = 'removed';
+        } else {
+          current.file.filename = path;
+        }
+      }
+    }
+  }
+  
+  finish();
+  
+  return files.filter(file => file.filename);
+};
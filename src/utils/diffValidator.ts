@@ -0,0 +1,108 @@
+import { DEFAULT_VALIDATOR_CONFIG, resolveValidatorConfig, ValidatorConfig } from './rules';
+import { getSkippedStatus, getValidatedStatus, toFileReport, validateFileContent } from './rules/engine';
+import { parseRepoConfig } from './rules/repoConfig';
+import type { FileReport, Issue, PrFile, PrSummary, ValidationResult } from './types';
+import { summarizeIssues } from './verdict';
+
+/**
+ * Describe an uploaded diff from the headers git format-patch puts in front of it
+ * @param diff The diff
+ * @returns The summary shown in place of the PR information
+ */
+export const getDiffSummary = (diff: string): PrSummary => {
+  const lines = diff.split(/\r?\n/);
+  const header = (name: string): string | undefined => {
+    const index = lines.findIndex(line => line.startsWith(`${name}: `));
+    if (index === -1) {
+      return undefined;
+    }
+    
+    // Long headers are folded on lines starting with whitespace
+    let value = lines[index].substring(name.length + 2);
+    for (let i = index + 1; /^\s+\S/.test(lines[i] ?? ''); i++) {
+      value += ` ${lines[i].trim()}`;
+    }
+    return value;
+  };
+  
+  return {
+    title: header('Subject')?.replace(/^\[PATCH[^\]]*\]\s*/, '') || 'Uploaded diff',
+    url: '',
+    author: header('From')?.replace(/\s*<[^>]*>$/, '') || 'unknown',
+    // A patch series starts each commit with its SHA, the last one is the head
+    headSha: lines.map(line => line.match(/^From ([0-9a-f]{40}) /)?.[1]).filter(Boolean).pop() ?? ''
+  };
+};
+
+/**
+ * Merge the reports of the files changed by several commits of a patch series
+ * @param reports The report of each file entry of the diff
+ * @returns One report per file, in the order the files first appear
+ */
+const mergeFileReports = (reports: FileReport[]): FileReport[] => {
+  const merged = new Map<string, FileReport>();
+  
+  for (const report of reports) {
+    const previous = merged.get(report.filename);
+    merged.set(report.filename, previous ? {
+      ...report,
+      // Issues found in any commit of the series stay reported
+      status: previous.status === 'validated-with-issues' ? previous.status : report.status,
+      additions: previous.additions + report.additions,
+      deletions: previous.deletions + report.deletions
+    } : report);
+  }
+  
+  return [...merged.values()];
+};
+
+/**
+ * Merge a repository config uploaded with a diff over the built-in defaults
+ * @param repoConfig The raw repository config, if any
+ * @returns The rules and settings to validate with
+ */
+export const loadUploadedConfig = (repoConfig?: unknown): ValidatorConfig =>
+  repoConfig === undefined
+    ? DEFAULT_VALIDATOR_CONFIG
+    : resolveValidatorConfig(parseRepoConfig(repoConfig), 'uploaded config');
+
+/**
+ * Validate a unified diff that doesn't come from a PR the server can access.
+ * Without the repository, imports can't be resolved and files can't be read in full,
+ * so only the code added in the diff is validated.
+ * @param diff The output of git diff or git format-patch
+ * @param files The file entries parsed from the diff
+ * @param config The rules and settings to validate with
+ * @returns Validation results
+ */
+export const validateDiff = (
+  diff: string,
+  files: PrFile[],
+  config: ValidatorConfig = DEFAULT_VALIDATOR_CONFIG
+): ValidationResult => {
+  const allIssues: Issue[] = [];
+  const suppressedIssues: Issue[] = [];
+  const fileReports: FileReport[] = [];
+  for (const file of files) {
+    const { issues, suppressed } = validateFileContent(file, config);
+    allIssues.push(...issues);
+    suppressedIssues.push(...suppressed);
+    fileReports.push(toFileReport(file, getSkippedStatus(file, config) ?? getValidatedStatus(issues)));
+  }
+  
+  // Files changed by several commits of a patch series are listed once
+  const checkedFiles = [...new Set(files.map(file => file.filename))];
+  
+  return {
+    pr: getDiffSummary(diff),
+    config: config.applied,
+    issues: allIssues,
+    ...summarizeIssues(allIssues, config.applied),
+    suppressedIssues,
+    filesChecked: checkedFiles.length,
+    checkedFiles,
+    files: mergeFileReports(fileReports),
+    // Every file is read from the diff itself
+    uncheckedFiles: []
+  };
+};
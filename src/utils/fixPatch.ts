@@ -0,0 +1,155 @@
+import type { Issue, SuggestedFix } from './types';
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+/**
+ * Convert a 1-based line and column to an offset in a text
+ * @param lineStarts Offset of the start of each line
+ * @param line The 1-based line
+ * @param column The 1-based column
+ * @returns The offset
+ */
+const toOffset = (lineStarts: number[], line: number, column: number): number =>
+  lineStarts[line - 1] + column - 1;
+
+/**
+ * Apply suggested fixes to the content of a file. Fixes overlapping an earlier one are skipped.
+ * @param content The file content
+ * @param fixes The fixes to apply
+ * @returns The fixed content
+ */
+export const applyFixes = (content: string, fixes: SuggestedFix[]): string => {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  
+  const edits: { start: number; end: number; replacement: string }[] = [];
+  
+  for (const fix of fixes) {
+    const start = toOffset(lineStarts, fix.range.startLine, fix.range.startColumn);
+    const end = toOffset(lineStarts, fix.range.endLine, fix.range.endColumn);
+    
+    if (!edits.some(edit => start < edit.end && end > edit.start)) {
+      edits.push({ start, end, replacement: fix.replacement });
+    }
+  }
+  
+  // Apply from the end so earlier offsets stay valid
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => `${text.substring(0, edit.start)}${edit.replacement}${text.substring(edit.end)}`, content);
+};
+
+/**
+ * Create a git-style unified diff between two versions of a file whose changes don't add or remove lines
+ * @param path Path of the file in the repository
+ * @param oldContent The original content
+ * @param newContent The fixed content
+ * @returns The diff or an empty string if nothing changed
+ */
+export const createUnifiedDiff = (path: string, oldContent: string, newContent: string): string => {
+  const oldLines = oldContent.split('\n');
+  const newLines = newContent.split('\n');
+  
+  if (oldLines.length !== newLines.length) {
+    throw new Error(`Fixes for ${path} changed its number of lines`);
+  }
+  
+  // split() leaves an empty last element when the file ends with a newline
+  const hasTrailingNewline = oldLines[oldLines.length - 1] === '';
+  const lineCount = hasTrailingNewline ? oldLines.length - 1 : oldLines.length;
+  
+  const changed: number[] = [];
+  for (let i = 0; i < lineCount; i++) {
+    if (oldLines[i] !== newLines[i]) {
+      changed.push(i);
+    }
+  }
+  
+  if (changed.length === 0) {
+    return '';
+  }
+  
+  // Group changes whose context would overlap into the same hunk
+  const hunks: { start: number; end: number }[] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(lineCount, index + CONTEXT_LINES + 1);
+    const last = hunks[hunks.length - 1];
+    
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+  
+  const output = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+  
+  /**
+   * Add a line to the diff, marking the last line of a file without a trailing newline
+   * @param prefix The diff prefix of the line
+   * @param text The line
+   * @param index Index of the line in the file
+   */
+  const pushLine = (prefix: string, text: string, index: number) => {
+    output.push(`${prefix}${text}`);
+    if (!hasTrailingNewline && index === lineCount - 1) {
+      output.push('\\ No newline at end of file');
+    }
+  };
+  
+  for (const hunk of hunks) {
+    const count = hunk.end - hunk.start;
+    output.push(`@@ -${hunk.start + 1},${count} +${hunk.start + 1},${count} @@`);
+    
+    let i = hunk.start;
+    while (i < hunk.end) {
+      if (oldLines[i] === newLines[i]) {
+        pushLine(' ', oldLines[i], i);
+        i++;
+        continue;
+      }
+      
+      // Removed lines of a run of changes come first, then the added ones
+      let runEnd = i;
+      while (runEnd < hunk.end && oldLines[runEnd] !== newLines[runEnd]) {
+        runEnd++;
+      }
+      for (let j = i; j < runEnd; j++) {
+        pushLine('-', oldLines[j], j);
+      }
+      for (let j = i; j < runEnd; j++) {
+        pushLine('+', newLines[j], j);
+      }
+      i = runEnd;
+    }
+  }
+  
+  return `${output.join('\n')}\n`;
+};
+
+/**
+ * Group the suggested fixes of a list of issues by file
+ * @param issues The issues
+ * @returns Map from file path to its fixes, in issue order
+ */
+export const groupFixesByFile = (issues: Issue[]): Map<string, SuggestedFix[]> => {
+  const fixesByFile = new Map<string, SuggestedFix[]>();
+  
+  for (const issue of issues) {
+    if (!issue.suggestedFix) {
+      continue;
+    }
+    
+    const fixes = fixesByFile.get(issue.file) ?? [];
+    fixes.push(issue.suggestedFix);
+    fixesByFile.set(issue.file, fixes);
+  }
+  
+  return fixesByFile;
+};
@@ -0,0 +1,59 @@
+import { Octokit } from 'octokit';
+
+// Web URL of a GitHub Enterprise Server instance, e.g. https://github.example.com
+const serverUrl = process.env.GITHUB_SERVER_URL?.replace(/\/+$/, '');
+
+// GitHub Enterprise Server serves its REST API under /api/v3 of the web host
+const apiUrl = process.env.GITHUB_API_URL || (serverUrl && `${serverUrl}/api/v3`);
+
+// Host PR and repository links point to, github.com unless an Enterprise Server is configured
+export const GITHUB_HOST = new URL(serverUrl || apiUrl?.match(/^(.*)\/api\/v3\/?$/)?.[1] || 'https://github.com').host.toLowerCase();
+
+// Repository bare PR numbers such as #123 refer to, e.g. MetaMask/metamask-mobile
+export const GITHUB_DEFAULT_REPO = process.env.GITHUB_DEFAULT_REPO;
+
+// Initialize Octokit with auth token if available, against the Enterprise Server or GITHUB_API_URL when set (e.g. a local mock API)
+export const octokit = new Octokit({
+  ...(process.env.GITHUB_TOKEN && { auth: process.env.GITHUB_TOKEN }),
+  ...(apiUrl && { baseUrl: apiUrl })
+});
+
+// OAuth scopes that allow commenting on pull requests
+const WRITE_SCOPES = ['repo', 'public_repo'];
+
+export interface TokenStatus {
+  hasGithubToken: boolean;
+  // Scopes of a classic token, or null when GitHub doesn't report them (fine-grained and app tokens)
+  scopes: string[] | null;
+  canPostReviews: boolean;
+}
+
+/**
+ * Find out what the server token is allowed to do
+ * @returns The token status
+ */
+export const getTokenStatus = async (): Promise<TokenStatus> => {
+  if (!process.env.GITHUB_TOKEN) {
+    return { hasGithubToken: false, scopes: null, canPostReviews: false };
+  }
+  
+  try {
+    const { headers } = await octokit.rest.rateLimit.get();
+    const scopesHeader = headers['x-oauth-scopes'];
+    
+    // Fine-grained and app tokens don't report scopes, so assume their repository permissions allow it
+    if (scopesHeader === undefined) {
+      return { hasGithubToken: true, scopes: null, canPostReviews: true };
+    }
+    
+    const scopes = String(scopesHeader).split(',').map(scope => scope.trim()).filter(Boolean);
+    return {
+      hasGithubToken: true,
+      scopes,
+      canPostReviews: scopes.some(scope => WRITE_SCOPES.includes(scope))
+    };
+  } catch (error: any) {
+    console.error('Error checking GitHub token:', error.message);
+    return { hasGithubToken: true, scopes: null, canPostReviews: false };
+  }
+};
@@ -0,0 +1,129 @@
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parsePrReference } from './prValidator';
+import type { HistoryEntry, HistoryKind, ScanResult, ValidationResult } from './types';
+
+// Where results are stored: an index with one summary per line, and the full result of each entry
+const HISTORY_DIR = process.env.HISTORY_DIR ?? join(process.cwd(), '.data', 'history');
+const INDEX_FILE = join(HISTORY_DIR, 'index.jsonl');
+const RESULTS_DIR = join(HISTORY_DIR, 'results');
+
+/**
+ * Store a result and its summary
+ * @param summary The entry without its id
+ * @param result The full result
+ * @returns The stored entry, or undefined if it couldn't be stored
+ */
+const addHistoryEntry = async (
+  summary: Omit<HistoryEntry, 'id'>,
+  result: ValidationResult | ScanResult
+): Promise<HistoryEntry | undefined> => {
+  const entry: HistoryEntry = {
+    id: `${Date.now()}-${summary.kind}-${summary.sha.substring(0, 7)}`,
+    ...summary
+  };
+  
+  // History is a side feature, it must never make a validation fail
+  try {
+    await mkdir(RESULTS_DIR, { recursive: true });
+    await writeFile(join(RESULTS_DIR, `${entry.id}.json`), JSON.stringify(result));
+    await appendFile(INDEX_FILE, JSON.stringify(entry) + '\n');
+    return entry;
+  } catch (error: any) {
+    console.error('Error recording history entry:', error.message);
+    return undefined;
+  }
+};
+
+/**
+ * Store a PR validation result
+ * @param result The validation result
+ * @returns The stored entry, or undefined if it couldn't be stored
+ */
+export const recordValidation = async (result: ValidationResult): Promise<HistoryEntry | undefined> => {
+  const { owner, repo } = parsePrReference(result.pr.url);
+  const legacy: Record<string, number> = {};
+  for (const issue of result.issues) {
+    legacy[issue.checkType] = (legacy[issue.checkType] ?? 0) + 1;
+  }
+  
+  return addHistoryEntry({
+    kind: 'pr',
+    repo: `${owner}/${repo}`,
+    sha: result.pr.headSha,
+    timestamp: new Date().toISOString(),
+    label: result.pr.title,
+    url: result.pr.url,
+    legacy,
+    total: result.issues.length
+  }, result);
+};
+
+/**
+ * Store a repository scan result
+ * @param result The scan result
+ * @returns The stored entry, or undefined if it couldn't be stored
+ */
+export const recordScan = async (result: ScanResult): Promise<HistoryEntry | undefined> => {
+  const legacy: Record<string, number> = {};
+  for (const [ruleId, progress] of Object.entries(result.rules)) {
+    legacy[ruleId] = progress.legacy;
+  }
+  
+  return addHistoryEntry({
+    kind: 'scan',
+    repo: result.repo,
+    sha: result.sha,
+    timestamp: new Date().toISOString(),
+    label: result.ref,
+    legacy,
+    total: result.legacy
+  }, result);
+};
+
+/**
+ * List the stored results, oldest first
+ * @param filter Only list the entries of a repository or kind
+ * @returns The history entries
+ */
+export const listHistory = async (filter: { repo?: string; kind?: HistoryKind } = {}): Promise<HistoryEntry[]> => {
+  let index: string;
+  try {
+    index = await readFile(INDEX_FILE, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  
+  return index
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as HistoryEntry)
+    .filter(entry =>
+      (!filter.repo || entry.repo.toLowerCase() === filter.repo.toLowerCase()) &&
+      (!filter.kind || entry.kind === filter.kind)
+    );
+};
+
+/**
+ * Read the full result of a history entry
+ * @param id The entry id
+ * @returns The result, or undefined if there is no entry with that id
+ */
+export const getHistoryResult = async (id: string): Promise<ValidationResult | ScanResult | undefined> => {
+  // Ids are generated by addHistoryEntry, anything else could point outside the store
+  if (!/^\d+-(pr|scan)-[0-9a-f]*$/.test(id)) {
+    return undefined;
+  }
+  
+  try {
+    return JSON.parse(await readFile(join(RESULTS_DIR, `${id}.json`), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+/**
+ * Read a response body made of newline-delimited JSON events
+ * @param body The response body
+ * @param onEvent Called with each event, in order
+ */
+export const readNdjsonStream = async (body: ReadableStream<Uint8Array>, onEvent: (event: any) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  
+  let buffer = '';
+  
+  while (true) {
+    const { value, done } = await reader.read();
+    
+    if (done) {
+      break;
+    }
+    
+    buffer += decoder.decode(value, { stream: true });
+    
+    // Process complete events
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep the last incomplete line in the buffer
+    
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      
+      try {
+        onEvent(JSON.parse(line));
+      } catch (e) {
+        console.error('Error parsing event:', e, line);
+      }
+    }
+  }
+  
+  // Process any remaining buffer
+  if (buffer.trim()) {
+    try {
+      onEvent(JSON.parse(buffer));
+    } catch (e) {
+      console.error('Error parsing final event:', e, buffer);
+    }
+  }
+};
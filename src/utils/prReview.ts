@@ -0,0 +1,308 @@
+import { createHash } from 'crypto';
+import { octokit } from './github';
+import { recordValidation } from './history';
+import { getFileAtRef, parsePrReference, runPrValidation } from './prValidator';
+import { saveResult } from './resultStore';
+import { getRule, RULES } from './rules';
+import { getPatchSegments } from './rules/analyzer';
+import { formatSeverityCounts, getIssueSeverity } from './severity';
+import type { Issue, PrFile, ValidationOptions } from './types';
+
+// Hidden marker identifying the review comments posted by the validator
+const COMMENT_MARKER = 'migration-validator';
+
+// Prefix of the body of a comment whose issue is no longer reported
+const RESOLVED_PREFIX = '✅ **Resolved**';
+
+export interface ReviewSummary {
+  // URL of the review created for new findings, or null when there was nothing new to post
+  reviewUrl: string | null;
+  created: number;
+  updated: number;
+  resolved: number;
+  // Issues on lines GitHub doesn't accept comments on
+  skipped: number;
+  // Id of the stored result, shared at /results/<id>
+  resultId?: string;
+}
+
+interface ReviewComment {
+  path: string;
+  line: number;
+  body: string;
+}
+
+/**
+ * Build a fingerprint identifying an issue across runs, independently of its line number
+ * @param issue The issue
+ * @param occurrence How many identical issues came before it in the same file
+ * @returns The fingerprint
+ */
+const getFingerprint = (issue: Issue, occurrence: number): string =>
+  createHash('sha1')
+    .update(`${issue.checkType}\n${issue.file}\n${issue.importStatement}\n${occurrence}`)
+    .digest('hex')
+    .substring(0, 16);
+
+/**
+ * Extract the fingerprint from the body of a comment posted by the validator
+ * @param body The comment body
+ * @returns The fingerprint or undefined if the comment wasn't posted by the validator
+ */
+const readFingerprint = (body: string): string | undefined =>
+  body.match(new RegExp(`<!-- ${COMMENT_MARKER}:([0-9a-f]+) -->`))?.[1];
+
+/**
+ * Get the head-side lines of each file that review comments can be attached to
+ * @param files The files changed by the PR
+ * @returns Map from file path to its commentable line numbers
+ */
+const getCommentableLines = (files: PrFile[]): Map<string, Set<number>> => {
+  const commentable = new Map<string, Set<number>>();
+  
+  for (const file of files) {
+    if (!file.patch) {
+      continue;
+    }
+    
+    const lines = new Set<number>();
+    for (const segment of getPatchSegments(file.patch)) {
+      const lineCount = segment.text.split('\n').length;
+      for (let i = 0; i < lineCount; i++) {
+        lines.add(segment.startLine + i);
+      }
+    }
+    commentable.set(file.filename, lines);
+  }
+  
+  return commentable;
+};
+
+/**
+ * Build the body of the review comment for an issue
+ * @param issue The issue
+ * @param fingerprint The issue fingerprint
+ * @param suggestion The fixed line to suggest, if the issue has a fix on the commented line
+ * @returns The comment body
+ */
+const buildCommentBody = (issue: Issue, fingerprint: string, suggestion?: string): string => {
+  const rule = getRule(issue.checkType);
+  const parts = [`**${rule?.title ?? issue.checkType}** (\`${issue.checkType}\`, ${getIssueSeverity(issue, RULES)})`, rule?.summary ?? ''];
+  
+  if (issue.message) {
+    parts.push(issue.message);
+  }
+  
+  if (suggestion !== undefined) {
+    parts.push(`\`\`\`suggestion\n${suggestion}\n\`\`\``);
+  }
+  
+  parts.push(`<!-- ${COMMENT_MARKER}:${fingerprint} -->`);
+  return parts.filter(Boolean).join('\n\n');
+};
+
+// Review threads of a PR, as returned by the GraphQL API
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        nodes: {
+          id: string;
+          isResolved: boolean;
+          comments: { nodes: { databaseId: number | null }[] };
+        }[];
+      };
+    };
+  };
+}
+
+/**
+ * Resolve or reopen the review threads started by the given comments
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param pullNumber The PR number
+ * @param resolveIds Database ids of the first comment of each thread to resolve
+ * @param reopenIds Database ids of the first comment of each thread to reopen
+ */
+const updateThreads = async (
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  resolveIds: number[],
+  reopenIds: number[]
+): Promise<void> => {
+  const result = await octokit.graphql.paginate<ReviewThreadsResponse>(
+    `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          reviewThreads(first: 100, after: $cursor) {
+            nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      }
+    }`,
+    { owner, repo, number: pullNumber }
+  );
+  
+  for (const thread of result.repository.pullRequest.reviewThreads.nodes) {
+    const commentId = thread.comments.nodes[0]?.databaseId ?? undefined;
+    if (commentId === undefined) {
+      continue;
+    }
+    
+    if (!thread.isResolved && resolveIds.includes(commentId)) {
+      await octokit.graphql(
+        `mutation($threadId: ID!) {
+          resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+        }`,
+        { threadId: thread.id }
+      );
+    } else if (thread.isResolved && reopenIds.includes(commentId)) {
+      await octokit.graphql(
+        `mutation($threadId: ID!) {
+          unresolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+        }`,
+        { threadId: thread.id }
+      );
+    }
+  }
+};
+
+/**
+ * Validate a PR, record and store the result, and publish its issues as a single review with inline comments.
+ * Comments from earlier runs are updated when their issue is still reported and resolved otherwise.
+ * @param prLink The GitHub PR URL
+ * @param options Validation options
+ * @returns What was posted
+ */
+export const postPrReview = async (prLink: string, options: ValidationOptions = {}): Promise<ReviewSummary> => {
+  const { owner, repo, pullNumber } = parsePrReference(prLink);
+  const { result, files } = await runPrValidation(prLink, options);
+  const headSha = result.pr.headSha;
+  
+  await recordValidation(result);
+  const resultId = await saveResult(result, options);
+  
+  const commentableLines = getCommentableLines(files);
+  const existingComments = await octokit.paginate(octokit.rest.pulls.listReviewComments, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+  
+  const previousComments = new Map<string, { id: number; body: string }>();
+  for (const comment of existingComments) {
+    const fingerprint = readFingerprint(comment.body);
+    if (fingerprint) {
+      previousComments.set(fingerprint, { id: comment.id, body: comment.body });
+    }
+  }
+  
+  const fileContents = new Map<string, string[]>();
+  const occurrences = new Map<string, number>();
+  const reported = new Set<string>();
+  // Comments of issues reported again after they were marked as resolved
+  const reopenedIds: number[] = [];
+  const newComments: ReviewComment[] = [];
+  const summary: ReviewSummary = { reviewUrl: null, created: 0, updated: 0, resolved: 0, skipped: 0, resultId };
+  
+  for (const issue of result.issues) {
+    const key = `${issue.checkType}\n${issue.file}\n${issue.importStatement}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    
+    const fingerprint = getFingerprint(issue, occurrence);
+    reported.add(fingerprint);
+    
+    const lines = commentableLines.get(issue.file);
+    const fix = issue.suggestedFix;
+    let line: number | undefined;
+    let suggestion: string | undefined;
+    
+    // Suggest the fixed line when the fix sits on a single commentable line
+    if (fix && fix.range.startLine === fix.range.endLine && lines?.has(fix.range.startLine)) {
+      if (!fileContents.has(issue.file)) {
+        const content = await getFileAtRef(owner, repo, issue.file, headSha);
+        fileContents.set(issue.file, content?.split('\n') ?? []);
+      }
+      
+      const original = fileContents.get(issue.file)![fix.range.startLine - 1];
+      if (original !== undefined) {
+        line = fix.range.startLine;
+        suggestion = `${original.substring(0, fix.range.startColumn - 1)}${fix.replacement}${original.substring(fix.range.endColumn - 1)}`;
+      }
+    }
+    
+    if (line === undefined && typeof issue.line === 'number') {
+      const start = issue.range?.startLine ?? issue.line;
+      const end = issue.range?.endLine ?? issue.line;
+      for (let candidate = start; candidate <= end && line === undefined; candidate++) {
+        if (lines?.has(candidate)) {
+          line = candidate;
+        }
+      }
+    }
+    
+    const body = buildCommentBody(issue, fingerprint, suggestion);
+    const previous = previousComments.get(fingerprint);
+    
+    if (previous) {
+      if (previous.body !== body) {
+        await octokit.rest.pulls.updateReviewComment({ owner, repo, comment_id: previous.id, body });
+        summary.updated++;
+      }
+      if (previous.body.startsWith(RESOLVED_PREFIX)) {
+        reopenedIds.push(previous.id);
+      }
+    } else if (line === undefined) {
+      summary.skipped++;
+    } else {
+      newComments.push({ path: issue.file, line, body });
+    }
+  }
+  
+  // Mark the comments of issues that are no longer reported as resolved
+  const resolvedIds: number[] = [];
+  for (const [fingerprint, comment] of previousComments) {
+    if (reported.has(fingerprint) || comment.body.startsWith(RESOLVED_PREFIX)) {
+      continue;
+    }
+    
+    await octokit.rest.pulls.updateReviewComment({
+      owner,
+      repo,
+      comment_id: comment.id,
+      body: `${RESOLVED_PREFIX} as of ${headSha.substring(0, 7)}\n\n${comment.body}`
+    });
+    resolvedIds.push(comment.id);
+  }
+  
+  if (resolvedIds.length > 0 || reopenedIds.length > 0) {
+    try {
+      await updateThreads(owner, repo, pullNumber, resolvedIds, reopenedIds);
+    } catch (error: any) {
+      // The comments already tell whether their issue is resolved, leave the threads as they are
+      console.error('Error updating review threads:', error.message);
+    }
+    summary.resolved = resolvedIds.length;
+  }
+  
+  if (newComments.length > 0) {
+    const { data: review } = await octokit.rest.pulls.createReview({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      commit_id: headSha,
+      event: 'COMMENT',
+      body: `🦊 PR Migration Validator found ${result.issues.length} issue(s) across ${new Set(result.issues.map(i => i.file)).size} file(s) (${formatSeverityCounts(result.counts)}). Verdict: **${result.verdict}**, failing on ${result.config.failOn} and above.`,
+      comments: newComments.map(comment => ({ ...comment, side: 'RIGHT' as const }))
+    });
+    
+    summary.reviewUrl = review.html_url;
+    summary.created = newComments.length;
+  }
+  
+  return summary;
+};
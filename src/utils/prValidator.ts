@@ -1,473 +1,432 @@
-import { Octokit } from 'octokit';
+import { loadRepoValidatorConfig, RepoTree, ValidatorConfig } from './rules';
+import { estimateAddedLines, getSkippedStatus, getValidatedStatus, isE2eFile, isValidatableFile, keepAddedIssues, SOURCE_FILE_PATTERN, toFileReport, validateFileContent } from './rules/engine';
+import { REPO_CONFIG_PATH } from './rules/repoConfig';
+import { applyFixes, createUnifiedDiff, groupFixesByFile } from './fixPatch';
+import { GITHUB_DEFAULT_REPO, GITHUB_HOST, octokit } from './github';
+import type { FileReport, Issue, PrFile, PrInfo, UncheckedFile, ValidationOptions, ValidationResult } from './types';
+import { summarizeIssues } from './verdict';
 
-// Initialize Octokit with auth token if available
-const octokit = new Octokit(
-  process.env.GITHUB_TOKEN 
-    ? { auth: process.env.GITHUB_TOKEN }
-    : {}
-);
-
-interface PrInfo {
-  owner: string;
-  repo: string;
-  pullNumber: number;
-}
-
-interface Issue {
-  file: string;
-  line: number | string;
-  importStatement: string;
-  checkType: 'assertions-framework' | 'assertions-no-ts' | 'gestures-framework' | 'getter-type' | 'fixtures-framework' | 'test-withfixtures' | 'matchers-framework' | 'fixture-utils-framework';
-}
-
-interface ValidationResult {
-  pr: {
-    title: string;
-    url: string;
-    author: string;
-  };
-  issues: Issue[];
-  filesChecked: number;
-  checkedFiles: string[];
-}
-
-// Valid types that should precede getter methods
-const VALID_GETTER_TYPES = [
-  'DetoxElement', 
-  'TappableElement', 
-  'TypableElement', 
-  'WebElement', 
-  'IndexableNativeElement', 
-  'NativeElement', 
-  'SystemElement', 
-  'DeviceLaunchAppConfig', 
-  'DetoxMatcher'
-];
-
-// Fixture-related imports that must come from /framework
-const FIXTURE_IMPORTS = [
-  'FixtureBuilder',
-  'FixtureHelper',
-  'FixtureUtils'
-];
+/**
+ * Make sure a link points to the GitHub instance the server talks to
+ * @param host The host of the link
+ */
+const assertGitHubHost = (host: string) => {
+  const normalized = host.toLowerCase().replace(/^www\./, '');
+  
+  if (normalized !== GITHUB_HOST) {
+    throw new Error(`Link points to ${normalized}, but the server is configured for ${GITHUB_HOST}`);
+  }
+};
 
 /**
- * Parse GitHub PR URL to extract owner, repo and PR number
- * @param prUrl The GitHub PR URL
- * @returns Object containing owner, repo and PR number
+ * Parse a GitHub repository URL or owner/repo name
+ * @param input The repository URL or name
+ * @returns Object containing owner and repo
  */
-export const parseGitHubPrUrl = (prUrl: string): PrInfo => {
-  const regex = /https:\/\/github\.com\/([^\/]+)\/([^\/]+)\/pull\/(\d+)/;
-  const match = prUrl.match(regex);
+export const parseGitHubRepo = (input: string): { owner: string; repo: string } => {
+  const match = input.trim().match(/^(?:(?:https?:\/\/)?([^\/\s]+)\/)?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
   
   if (!match) {
-    throw new Error('Invalid GitHub PR URL');
+    throw new Error('Invalid GitHub repository, expected owner/repo or its URL');
+  }
+  
+  if (match[1]) {
+    assertGitHubHost(match[1]);
   }
   
   return {
-    owner: match[1],
-    repo: match[2],
-    pullNumber: parseInt(match[3])
+    owner: match[2],
+    repo: match[3]
   };
 };
 
 /**
- * Check if a type is valid, either directly or as Promise<ValidType>
- * @param typeName The type name to check
- * @returns boolean indicating if the type is valid
+ * Parse a reference to a GitHub PR: its URL, including links to its tabs, commits or comments,
+ * the owner/repo#123 shorthand, or the bare number of a PR of the default repository
+ * @param reference The PR reference
+ * @returns Object containing owner, repo and PR number
  */
-const isValidGetterType = (typeName: string): boolean => {
-  // Check for direct match
-  if (VALID_GETTER_TYPES.includes(typeName)) {
-    return true;
+export const parsePrReference = (reference: string): PrInfo => {
+  const input = reference.trim();
+  
+  // Anything after the PR number, e.g. /files, /commits/<sha> or #discussion_r123, is ignored
+  const url = input.match(/^(?:https?:\/\/)?([^\/\s]+)\/([\w.-]+)\/([\w.-]+)\/pull\/(\d+)(?:[\/?#]\S*)?$/i);
+  if (url) {
+    assertGitHubHost(url[1]);
+    return {
+      owner: url[2],
+      repo: url[3],
+      pullNumber: parseInt(url[4])
+    };
+  }
+  
+  const shorthand = input.match(/^([\w.-]+)\/([\w.-]+)#(\d+)$/);
+  if (shorthand) {
+    return {
+      owner: shorthand[1],
+      repo: shorthand[2],
+      pullNumber: parseInt(shorthand[3])
+    };
   }
   
-  // Check for Promise<ValidType>
-  const promiseRegex = /^Promise<([A-Za-z0-9_]+)>$/;
-  const match = typeName.match(promiseRegex);
-  if (match && VALID_GETTER_TYPES.includes(match[1])) {
-    return true;
+  const number = input.match(/^#?(\d+)$/);
+  if (number) {
+    if (!GITHUB_DEFAULT_REPO) {
+      throw new Error('PR numbers alone need a default repository, set GITHUB_DEFAULT_REPO');
+    }
+    
+    return {
+      ...parseGitHubRepo(GITHUB_DEFAULT_REPO),
+      pullNumber: parseInt(number[1])
+    };
   }
   
-  return false;
+  throw new Error('Invalid GitHub PR reference, expected a PR URL, owner/repo#123 or a PR number');
 };
 
 /**
- * Check various import and code patterns
- * @param file The file content
- * @returns Array of issues found or empty if no issues
+ * Read a blob of the repository through the blob API
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param sha The blob SHA
+ * @returns The blob content
  */
-const validateFileContent = (file: any): Issue[] => {
-  const issues: Issue[] = [];
+export const getBlobContent = async (owner: string, repo: string, sha: string): Promise<string> => {
+  const { data: blob } = await octokit.rest.git.getBlob({
+    owner,
+    repo,
+    file_sha: sha
+  });
   
-  // Only process files with content (skip binary files or removed files)
-  if (!file.patch) {
-    return issues;
+  return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+};
+
+/**
+ * Fetch the head revision of a file in the PR through the blob API
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param file The file entry from the PR
+ * @returns The file content or undefined if it can't be fetched
+ */
+const getFileContent = async (owner: string, repo: string, file: PrFile): Promise<string | undefined> => {
+  if (!file.sha) {
+    return undefined;
   }
   
-  // Only run checks on files under the e2e/ directory
-  const isE2eFile = file.filename.startsWith('e2e/');
-  
-  // If not an e2e file, return empty issues array
-  if (!isE2eFile) {
-    return issues;
+  try {
+    return await getBlobContent(owner, repo, file.sha);
+  } catch (error: any) {
+    // Fall back to validating the patch only
+    console.error(`Error fetching content of ${file.filename}:`, error.message);
+    return undefined;
   }
-  
-  const lines = file.patch.split('\n');
-  const addedLines = lines.filter((line: string) => line.startsWith('+') && !line.startsWith('+++'));
-  
-  // Process each added line
-  addedLines.forEach((line: string, index: number) => {
-    // Clean the line from the '+' prefix for comparison
-    const cleanLine = line.substring(1).trim();
-    
-    // Check for Assertions import without /framework in the path
-    if (cleanLine.includes('import') && cleanLine.includes('Assertions') && !cleanLine.includes('/framework')) {
-      issues.push({
-        file: file.filename,
-        line: getOriginalLineNumber(lines, index),
-        importStatement: cleanLine,
-        checkType: 'assertions-framework'
-      });
-    }
-    
-    // Check for Assertions import with .ts extension
-    if (cleanLine.includes('import') && cleanLine.includes('Assertions') && cleanLine.includes('.ts')) {
-      issues.push({
-        file: file.filename,
-        line: getOriginalLineNumber(lines, index),
-        importStatement: cleanLine,
-        checkType: 'assertions-no-ts'
-      });
-    }
-    
-    // Check for gestures import without /framework in the path
-    if (cleanLine.includes('import') && cleanLine.includes('gestures') && !cleanLine.includes('/framework')) {
-      issues.push({
-        file: file.filename,
-        line: getOriginalLineNumber(lines, index),
-        importStatement: cleanLine,
-        checkType: 'gestures-framework'
-      });
-    }
-    
-    // Check for withFixtures import without /framework/fixtures in the path
-    if (cleanLine.includes('import') && cleanLine.includes('withFixtures') && !cleanLine.includes('/framework/fixtures')) {
-      issues.push({
-        file: file.filename,
-        line: getOriginalLineNumber(lines, index),
-        importStatement: cleanLine,
-        checkType: 'fixtures-framework'
-      });
-    }
+};
+
+/**
+ * List the files changed in a PR, following every page up to GitHub's limit
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param pullNumber The PR number
+ * @returns The file entries
+ */
+export const listPrFiles = async (owner: string, repo: string, pullNumber: number) =>
+  octokit.paginate(octokit.rest.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+
+/**
+ * Read a file of the repository at a given commit through the contents API.
+ * Files over 1 MB come without content, so they are read from their blob instead.
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param path Path of the file in the repository
+ * @param ref The commit SHA to read the file at
+ * @returns The file content or undefined if the file doesn't exist
+ */
+export const getFileAtRef = async (owner: string, repo: string, path: string, ref: string): Promise<string | undefined> => {
+  try {
+    const { data } = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref
+    });
     
-    // Check for Matchers import without /framework in the path
-    if (cleanLine.includes('import') && cleanLine.includes('Matchers') && !cleanLine.includes('/framework')) {
-      issues.push({
-        file: file.filename,
-        line: getOriginalLineNumber(lines, index),
-        importStatement: cleanLine,
-        checkType: 'matchers-framework'
-      });
+    if (Array.isArray(data) || data.type !== 'file') {
+      throw new Error(`${path} is not a file`);
     }
     
-    // Check for fixture-related imports without /framework in the path
-    for (const fixtureImport of FIXTURE_IMPORTS) {
-      if (cleanLine.includes('import') && cleanLine.includes(fixtureImport) && !cleanLine.includes('/framework')) {
-        // For multiline imports, we need to check if this is part of a multiline import statement
-        // that might have the framework path in another line
-        let isMultilineImport = false;
-        let hasFrameworkPath = false;
-        
-        // Check if this line is the start of a multiline import (has opening brace but no closing brace)
-        if (cleanLine.includes('{') && !cleanLine.includes('}')) {
-          isMultilineImport = true;
-          
-          // Look ahead for the closing brace and check if any line contains '/framework'
-          let j = index;
-          while (j < addedLines.length) {
-            const nextLine = addedLines[j].substring(1).trim();
-            if (nextLine.includes('/framework')) {
-              hasFrameworkPath = true;
-              break;
-            }
-            if (nextLine.includes('}')) {
-              break;
-            }
-            j++;
-          }
-        }
-        
-        // Look behind for the import statement if this line contains the closing brace
-        if (cleanLine.includes('}') && !cleanLine.includes('import')) {
-          isMultilineImport = true;
-          
-          // Look behind for the import statement
-          let j = index;
-          while (j >= 0) {
-            const prevLine = addedLines[j].substring(1).trim();
-            if (prevLine.includes('import') && prevLine.includes('/framework')) {
-              hasFrameworkPath = true;
-              break;
-            }
-            if (prevLine.includes('import')) {
-              break;
-            }
-            j--;
-          }
-        }
-        
-        // Only add an issue if it's not part of a multiline import with framework path
-        if (!isMultilineImport || (isMultilineImport && !hasFrameworkPath)) {
-          issues.push({
-            file: file.filename,
-            line: getOriginalLineNumber(lines, index),
-            importStatement: cleanLine,
-            checkType: 'fixture-utils-framework'
-          });
-          break; // Only add one issue per line even if multiple fixture imports are found
-        }
-      }
+    if (data.encoding === 'none') {
+      return await getBlobContent(owner, repo, data.sha);
     }
     
-    // Check for getter methods without proper type prefixes
-    // Looking for patterns like "get something()" but not when followed by a valid return type
-    const getterMethodRegex = /\bget\s+\w+\s*\(/;
-    if (getterMethodRegex.test(cleanLine)) {
-      // Check if getter is properly typed in TypeScript (get x(): Type or Promise<Type>)
-      const tsGetterRegex = /\bget\s+\w+\s*\(\s*\)\s*:\s*([A-Za-z0-9_<>]+)/;
-      const tsMatch = cleanLine.match(tsGetterRegex);
-      
-      if (tsMatch) {
-        // If we have a TypeScript type annotation, check if it's one of the valid types
-        // or Promise<ValidType>
-        const returnType = tsMatch[1];
-        if (isValidGetterType(returnType)) {
-          // This is correctly typed, so don't flag it
-          return;
-        }
-      }
-      
-      // Check if any of the valid types precede the getter (for non-TypeScript cases)
-      const hasValidType = VALID_GETTER_TYPES.some(type => 
-        cleanLine.includes(`${type}.prototype.get`) || 
-        cleanLine.includes(`${type}['prototype']['get`) ||
-        cleanLine.includes(`${type}.get`) ||
-        cleanLine.includes(`${type}['get`) ||
-        cleanLine.includes(`${type}["get`)
-      );
-      
-      if (!hasValidType) {
-        issues.push({
-          file: file.filename,
-          line: getOriginalLineNumber(lines, index),
-          importStatement: cleanLine,
-          checkType: 'getter-type'
-        });
-      }
+    return Buffer.from(data.content, 'base64').toString('utf8');
+  } catch (error: any) {
+    if (error.status === 404) {
+      return undefined;
     }
+    throw error;
+  }
+};
+
+/**
+ * Read the repository config at a given commit and merge it over the built-in defaults
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param ref The commit SHA to read the config at
+ * @returns The rules and settings to validate with
+ */
+export const getValidatorConfig = async (owner: string, repo: string, ref: string): Promise<ValidatorConfig> => {
+  const raw = await getFileAtRef(owner, repo, REPO_CONFIG_PATH, ref);
+  return loadRepoValidatorConfig(raw, `${REPO_CONFIG_PATH}@${ref.substring(0, 7)}`);
+};
+
+/**
+ * A file of the repository tree
+ */
+export interface TreeFile {
+  path: string;
+  sha: string;
+}
+
+/**
+ * Load every file in the repository at a given commit through the git trees API
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param ref The commit SHA to load the tree at
+ * @returns The files, or undefined if the tree is too large to be loaded completely
+ */
+export const getRepoTreeFiles = async (owner: string, repo: string, ref: string): Promise<TreeFile[] | undefined> => {
+  const { data } = await octokit.rest.git.getTree({
+    owner,
+    repo,
+    tree_sha: ref,
+    recursive: 'true'
   });
   
-  // Check for test files that need withFixtures in each it() block
-  if (file.filename.endsWith('.spec.ts')) {
-    validateTestFile(file, lines, issues);
+  if (data.truncated) {
+    return undefined;
   }
   
-  return issues;
+  return data.tree
+    .filter(entry => entry.type === 'blob' && entry.path && entry.sha)
+    .map(entry => ({ path: entry.path!, sha: entry.sha! }));
 };
 
 /**
- * Validate test files to ensure each it() block has a withFixtures reference
- * @param file The file object
- * @param lines The lines from the patch
- * @param issues The issues array to add to
+ * Load the path of every file in the repository at a given commit through the git trees API
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param ref The commit SHA to load the tree at
+ * @returns The repository tree or undefined if it can't be loaded completely
  */
-const validateTestFile = (file: any, lines: string[], issues: Issue[]): void => {
-  // Get all added lines that contain 'it(' or 'it.only(' or similar test declarations
-  const testBlockLines = lines.filter(line => 
-    line.startsWith('+') && 
-    !line.startsWith('+++') && 
-    /\bit(\.|)(\w+|)\s*\(/.test(line.substring(1).trim())
-  );
-  
-  // For each test block, check if it has a withFixtures reference within a reasonable range
-  testBlockLines.forEach(testLine => {
-    const lineIndex = lines.indexOf(testLine);
-    const testLineClean = testLine.substring(1).trim();
-    
-    // Check if withFixtures is already in the test line itself
-    if (testLineClean.includes('withFixtures')) {
-      return; // withFixtures is already in the test declaration line
-    }
-    
-    // Find the closing parenthesis or the end of the block
-    let foundWithFixtures = false;
-    let blockEndFound = false;
-    let currentLine = lineIndex;
-    let blockDepth = 0;
-    let parenDepth = 0;
-    
-    // Count opening parentheses and braces in the test line itself
-    for (const char of testLineClean) {
-      if (char === '(') parenDepth++;
-      if (char === ')') parenDepth--;
-      if (char === '{') blockDepth++;
-      if (char === '}') blockDepth--;
-    }
+export const getRepoTree = async (owner: string, repo: string, ref: string): Promise<RepoTree | undefined> => {
+  try {
+    const files = await getRepoTreeFiles(owner, repo, ref);
     
-    // If the test declaration spans multiple lines, we need to find where it ends
-    if (parenDepth > 0) {
-      // Look for the closing parenthesis of the test declaration
-      let declarationEndFound = false;
-      let tempLine = lineIndex;
-      
-      while (tempLine < lines.length - 1 && !declarationEndFound && parenDepth > 0) {
-        tempLine++;
-        const nextLine = lines[tempLine];
-        
-        // Skip lines that aren't added in the PR
-        if (!nextLine.startsWith('+') && !nextLine.startsWith('-')) continue;
-        
-        const cleanNextLine = nextLine.startsWith('+') ? nextLine.substring(1).trim() : nextLine.substring(1).trim();
-        
-        // Check for withFixtures in the test declaration
-        if (cleanNextLine.includes('withFixtures')) {
-          foundWithFixtures = true;
-          break;
-        }
-        
-        // Track parenthesis depth
-        for (const char of cleanNextLine) {
-          if (char === '(') parenDepth++;
-          if (char === ')') {
-            parenDepth--;
-            if (parenDepth === 0) {
-              declarationEndFound = true;
-              break;
-            }
-          }
-        }
-      }
+    // A partial tree would make existing files look missing
+    if (!files) {
+      console.warn(`Tree of ${owner}/${repo}@${ref} is truncated, skipping import resolution`);
+      return undefined;
     }
     
-    // If we already found withFixtures in the declaration, no need to check the block
-    if (foundWithFixtures) {
-      return;
-    }
+    return new Set(files.map(file => file.path));
+  } catch (error: any) {
+    console.error(`Error loading tree of ${owner}/${repo}@${ref}:`, error.message);
+    return undefined;
+  }
+};
+
+/**
+ * Everything loaded once per PR that the validation of each of its files needs
+ */
+export interface PrValidationContext {
+  owner: string;
+  repo: string;
+  // The commit the PR is compared with, to rebuild patches GitHub leaves out
+  baseSha: string;
+  config: ValidatorConfig;
+  tree?: RepoTree;
+  options: ValidationOptions;
+}
+
+/**
+ * Load the repository config and tree at the PR head
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param headSha The PR head commit SHA
+ * @param baseSha The PR base commit SHA
+ * @param options Validation options
+ * @returns The validation context
+ */
+export const preparePrValidation = async (
+  owner: string,
+  repo: string,
+  headSha: string,
+  baseSha: string,
+  options: ValidationOptions = {}
+): Promise<PrValidationContext> => {
+  const [config, tree] = await Promise.all([
+    getValidatorConfig(owner, repo, headSha),
+    getRepoTree(owner, repo, headSha)
+  ]);
+  
+  return { owner, repo, baseSha, config, tree, options };
+};
+
+/**
+ * Outcome of the validation of a single file of a PR
+ */
+export interface FileValidation {
+  issues: Issue[];
+  // Findings disabled by a suppression directive
+  suppressed: Issue[];
+  report: FileReport;
+  // Set when the rules should have run on the file but couldn't
+  unchecked?: UncheckedFile;
+}
+
+/**
+ * Validate a file whose patch GitHub left out because the diff is too large,
+ * by comparing its base and head blobs
+ * @param context The validation context of the PR
+ * @param file The file entry from the PR
+ * @returns The outcome of the validation
+ */
+const validateFileWithoutPatch = async (context: PrValidationContext, file: PrFile): Promise<FileValidation> => {
+  const { owner, repo, baseSha, config, tree, options } = context;
+  
+  try {
+    const content = await getFileContent(owner, repo, file);
+    const baseContent = file.status === 'added'
+      ? ''
+      : await getFileAtRef(owner, repo, file.previous_filename ?? file.filename, baseSha);
     
-    // Look ahead for withFixtures until we find the end of the block
-    while (currentLine < lines.length - 1 && !blockEndFound && blockDepth >= 0) {
-      currentLine++;
-      const nextLine = lines[currentLine];
-      
-      // Consider both added and context lines (not removed lines)
-      if (nextLine.startsWith('-')) continue;
-      
-      // For added lines, remove the '+' prefix
-      const cleanNextLine = nextLine.startsWith('+') ? nextLine.substring(1).trim() : nextLine.trim();
-      
-      // Check for withFixtures reference - be more specific about the pattern
-      // Look for withFixtures followed by opening parenthesis or dot
-      if (
-        cleanNextLine.includes('withFixtures(') || 
-        cleanNextLine.includes('withFixtures.') ||
-        cleanNextLine.includes('withFixtures (') ||
-        /\bwithFixtures\s*\(/.test(cleanNextLine)
-      ) {
-        foundWithFixtures = true;
-        break;
-      }
-      
-      // Track block depth
-      for (const char of cleanNextLine) {
-        if (char === '{') blockDepth++;
-        if (char === '}') {
-          blockDepth--;
-          // If we've closed the initial block, we're done
-          if (blockDepth < 0) {
-            blockEndFound = true;
-            break;
-          }
-        }
-      }
+    if (content === undefined || baseContent === undefined) {
+      return {
+        issues: [],
+        suppressed: [],
+        report: toFileReport(file, 'skipped-too-large'),
+        unchecked: { filename: file.filename, reason: 'Patch omitted by GitHub and file contents unavailable' }
+      };
     }
     
-    // If we didn't find withFixtures in the test block, report an issue
-    if (!foundWithFixtures) {
-      // Calculate the actual line number in the file
-      // First find the hunk header that precedes this line
-      let hunkHeaderIndex = lineIndex;
-      while (hunkHeaderIndex >= 0) {
-        if (lines[hunkHeaderIndex].startsWith('@@')) {
-          break;
-        }
-        hunkHeaderIndex--;
-      }
-      
-      let lineNumber: number | string = 'N/A';
-      
-      if (hunkHeaderIndex >= 0) {
-        // Parse the hunk header to get the starting line number
-        const hunkHeader = lines[hunkHeaderIndex];
-        const match = hunkHeader.match(/@@ -\d+,\d+ \+(\d+),\d+ @@/);
-        if (match) {
-          const hunkStartLine = parseInt(match[1], 10);
-          
-          // Count lines from hunk start to our test line
-          let linesAfterHunk = 0;
-          for (let i = hunkHeaderIndex + 1; i < lineIndex; i++) {
-            if (!lines[i].startsWith('-')) {
-              linesAfterHunk++;
-            }
-          }
-          
-          lineNumber = hunkStartLine + linesAfterHunk - 1;
-        }
-      }
-      
-      issues.push({
-        file: file.filename,
-        line: lineNumber,
-        importStatement: testLineClean,
-        checkType: 'test-withfixtures'
-      });
-    }
-  });
+    const fileIssues = validateFileContent(file, config, { content, addedLines: estimateAddedLines(baseContent, content), tree });
+    const { issues, suppressed } = options.fullFile ? fileIssues : keepAddedIssues(fileIssues);
+    return { issues, suppressed, report: toFileReport(file, getValidatedStatus(issues)) };
+  } catch (error: any) {
+    return {
+      issues: [],
+      suppressed: [],
+      report: toFileReport(file, 'skipped-too-large'),
+      unchecked: { filename: file.filename, reason: `Patch omitted by GitHub and file contents unavailable: ${error.message}` }
+    };
+  }
 };
 
 /**
- * Get the original line number from the diff
- * @param lines All lines in the diff
- * @param addedLineIndex Index of the added line in the filtered array
- * @returns The original line number or 'N/A' if can't determine
+ * Validate a single file of a PR
+ * @param context The validation context of the PR
+ * @param file The file entry from the PR
+ * @returns The issues found, the file report, and why the file couldn't be checked if it couldn't
  */
-const getOriginalLineNumber = (lines: string[], addedLineIndex: number): number | string => {
-  let originalLineIndex = 0;
-  let addedLineCount = 0;
+export const validatePrFile = async (context: PrValidationContext, file: PrFile): Promise<FileValidation> => {
+  const { owner, repo, config, tree, options } = context;
+  
+  // Large diffs come without patch, but the source files among them can still be compared
+  if (!file.patch && file.status !== 'removed' && isE2eFile(file.filename, config) && SOURCE_FILE_PATTERN.test(file.filename)) {
+    return validateFileWithoutPatch(context, file);
+  }
+  
+  const skipped = getSkippedStatus(file, config);
+  if (skipped || !isValidatableFile(file, config)) {
+    return { issues: [], suppressed: [], report: toFileReport(file, skipped ?? 'validated-clean') };
+  }
+  
+  const content = options.fullFile ? await getFileContent(owner, repo, file) : undefined;
+  let fileIssues = validateFileContent(file, config, { content, tree });
   
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].startsWith('+') && !lines[i].startsWith('+++')) {
-      if (addedLineCount === addedLineIndex) {
-        return originalLineIndex;
-      }
-      addedLineCount++;
+  // File-level directives are usually outside the patch hunks, so findings in the patch
+  // are checked against the whole file before they are reported
+  if (content === undefined && fileIssues.issues.length > 0) {
+    const headContent = await getFileContent(owner, repo, file);
+    if (headContent !== undefined) {
+      fileIssues = keepAddedIssues(validateFileContent(file, config, { content: headContent, tree }));
     }
-    if (!lines[i].startsWith('-') && !lines[i].startsWith('---')) {
-      originalLineIndex++;
+  }
+  
+  const { issues, suppressed } = fileIssues;
+  return { issues, suppressed, report: toFileReport(file, getValidatedStatus(issues)) };
+};
+
+/**
+ * Validate the files changed by a PR, or by any commit range of its repository
+ * @param context The validation context
+ * @param files The changed files
+ * @param onFile Called with the outcome of each file as soon as it is validated
+ * @returns The issues and file lists of the validation result
+ */
+export const validatePrFiles = async (
+  context: PrValidationContext,
+  files: PrFile[],
+  onFile?: (file: PrFile, validation: FileValidation) => void
+): Promise<Pick<ValidationResult, 'issues' | 'verdict' | 'counts' | 'suppressedIssues' | 'filesChecked' | 'checkedFiles' | 'files' | 'uncheckedFiles'>> => {
+  const allIssues: Issue[] = [];
+  const suppressedIssues: Issue[] = [];
+  const checkedFiles: string[] = []; // Array to store all filenames
+  const fileReports: FileReport[] = [];
+  const uncheckedFiles: UncheckedFile[] = [];
+  
+  // Check each file for Assertions imports
+  for (const file of files) {
+    // Add filename to the list of checked files
+    checkedFiles.push(file.filename);
+    
+    const validation = await validatePrFile(context, file);
+    onFile?.(file, validation);
+    
+    const { issues, suppressed, report, unchecked } = validation;
+    allIssues.push(...issues);
+    suppressedIssues.push(...suppressed);
+    fileReports.push(report);
+    if (unchecked) {
+      uncheckedFiles.push(unchecked);
     }
   }
   
-  return 'N/A';
+  return {
+    issues: allIssues,
+    ...summarizeIssues(allIssues, context.config.applied),
+    suppressedIssues,
+    filesChecked: files.length,
+    checkedFiles, // Include the list of all checked files
+    files: fileReports,
+    uncheckedFiles
+  };
 };
 
 /**
- * Get and analyze the diff of a GitHub PR
+ * A PR validation with what it was computed from
+ */
+export interface PrValidationRun {
+  result: ValidationResult;
+  // The files changed by the PR
+  files: PrFile[];
+  context: PrValidationContext;
+}
+
+/**
+ * Get and analyze the diff of a GitHub PR, keeping the files it changes and the rules it ran
  * @param prLink The GitHub PR URL
- * @returns Validation results
+ * @param options Validation options
+ * @returns Validation results, the changed files and the validation context
  */
-export const validatePr = async (prLink: string): Promise<ValidationResult> => {
+export const runPrValidation = async (prLink: string, options: ValidationOptions = {}): Promise<PrValidationRun> => {
   try {
-    const { owner, repo, pullNumber } = parseGitHubPrUrl(prLink);
+    const { owner, repo, pullNumber } = parsePrReference(prLink);
     
     // Get the PR data
     const { data: pullRequest } = await octokit.rest.pulls.get({
@@ -476,38 +435,62 @@ export const validatePr = async (prLink: string): Promise<ValidationResult> => {
       pull_number: pullNumber
     });
     
-    // Get the files in the PR
-    const { data: files } = await octokit.rest.pulls.listFiles({
-      owner,
-      repo,
-      pull_number: pullNumber
-    });
+    // Load the repository config and tree at the PR head
+    const context = await preparePrValidation(owner, repo, pullRequest.head.sha, pullRequest.base.sha, options);
     
-    const allIssues: Issue[] = [];
-    const checkedFiles: string[] = []; // Array to store all filenames
+    // Get the files in the PR
+    const files = await listPrFiles(owner, repo, pullNumber);
     
-    // Check each file for Assertions imports
-    for (const file of files) {
-      // Add filename to the list of checked files
-      checkedFiles.push(file.filename);
-      
-      const fileIssues = validateFileContent(file);
-      allIssues.push(...fileIssues);
-    }
+    const validation = await validatePrFiles(context, files);
     
-    return {
+    const result: ValidationResult = {
       pr: {
         title: pullRequest.title,
         url: pullRequest.html_url,
-        author: pullRequest.user.login
+        author: pullRequest.user.login,
+        headSha: pullRequest.head.sha
       },
-      issues: allIssues,
-      filesChecked: files.length,
-      checkedFiles // Include the list of all checked files
+      config: context.config.applied,
+      ...validation,
+      unlistedFiles: Math.max(0, pullRequest.changed_files - files.length)
     };
     
+    return { result, files, context };
+  
   } catch (error: any) {
     console.error('Error validating PR:', error);
     throw new Error(`Failed to validate PR: ${error.message}`);
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Get and analyze the diff of a GitHub PR
+ * @param prLink The GitHub PR URL
+ * @param options Validation options
+ * @returns Validation results
+ */
+export const validatePr = async (prLink: string, options: ValidationOptions = {}): Promise<ValidationResult> =>
+  (await runPrValidation(prLink, options)).result;
+
+/**
+ * Validate a GitHub PR and build a patch applying every suggested fix
+ * @param prLink The GitHub PR URL
+ * @param options Validation options
+ * @returns The unified diff, empty if there is nothing to fix
+ */
+export const createPrFixPatch = async (prLink: string, options: ValidationOptions = {}): Promise<string> => {
+  const { owner, repo } = parsePrReference(prLink);
+  const result = await validatePr(prLink, options);
+  const diffs: string[] = [];
+  
+  for (const [path, fixes] of groupFixesByFile(result.issues)) {
+    const content = await getFileAtRef(owner, repo, path, result.pr.headSha);
+    if (content === undefined) {
+      continue;
+    }
+    
+    diffs.push(createUnifiedDiff(path, content, applyFixes(content, fixes)));
+  }
+  
+  return diffs.join('');
+};
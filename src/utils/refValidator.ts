@@ -0,0 +1,187 @@
+import { octokit } from './github';
+import { parseGitHubRepo, preparePrValidation, validatePrFiles } from './prValidator';
+import type { PrFile, ValidationOptions, ValidationResult } from './types';
+
+// Files per page of a single commit, which GitHub lists up to 3000 of
+const COMMIT_FILES_PER_PAGE = 100;
+const MAX_COMMIT_FILE_PAGES = 30;
+
+// Files GitHub lists at most for a comparison, which has no pagination for its files
+const MAX_COMPARISON_FILES = 300;
+
+/**
+ * Split a ref range into its base and head refs
+ * @param range base...head, or a single commit SHA or ref
+ * @returns The base and head refs, without base for a single commit
+ */
+export const parseRefRange = (range: string): { base?: string; head: string } => {
+  const input = range.trim();
+  const comparison = input.match(/^(\S+?)\.\.\.(\S+)$/);
+  
+  if (comparison) {
+    return { base: comparison[1], head: comparison[2] };
+  }
+  
+  // Two-dot ranges aren't supported by the compare API, which always diffs from the merge base
+  if (!input || /\s|\.\./.test(input)) {
+    throw new Error('Invalid ref range, expected base...head or a commit SHA');
+  }
+  
+  return { head: input };
+};
+
+/**
+ * Get a commit with every file it changes, reading all the pages of its file list
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param ref The commit SHA or ref
+ * @returns The commit and its files
+ */
+export const getCommitWithFiles = async (owner: string, repo: string, ref: string) => {
+  const { data: commit } = await octokit.rest.repos.getCommit({
+    owner,
+    repo,
+    ref,
+    per_page: COMMIT_FILES_PER_PAGE
+  });
+  const files: PrFile[] = [...(commit.files ?? [])];
+  
+  // Every page repeats the commit, only the file list changes
+  for (let page = 2; page <= MAX_COMMIT_FILE_PAGES && files.length === (page - 1) * COMMIT_FILES_PER_PAGE; page++) {
+    const { data } = await octokit.rest.repos.getCommit({
+      owner,
+      repo,
+      ref: commit.sha,
+      per_page: COMMIT_FILES_PER_PAGE,
+      page
+    });
+    files.push(...(data.files ?? []));
+  }
+  
+  return { commit, files };
+};
+
+/**
+ * Validate the changes of a single commit
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param ref The commit SHA or ref
+ * @param options Validation options
+ * @returns Validation results
+ */
+const validateCommit = async (owner: string, repo: string, ref: string, options: ValidationOptions): Promise<ValidationResult> => {
+  const { commit, files: commitFiles } = await getCommitWithFiles(owner, repo, ref);
+  
+  // The root commit has no parent, every file it changes is added and has no base revision to read
+  const baseSha = commit.parents[0]?.sha ?? '';
+  const files = baseSha
+    ? commitFiles
+    : commitFiles.map(file => ({ ...file, status: 'added', previous_filename: undefined }));
+  const context = await preparePrValidation(owner, repo, commit.sha, baseSha, options);
+  
+  return {
+    pr: {
+      title: commit.commit.message.split('\n')[0],
+      url: commit.html_url,
+      author: commit.author?.login ?? commit.commit.author?.name ?? 'unknown',
+      headSha: commit.sha
+    },
+    ref: {
+      repo: `${owner}/${repo}`,
+      base: baseSha,
+      baseSha,
+      head: ref,
+      commits: 1
+    },
+    config: context.config.applied,
+    ...(await validatePrFiles(context, files))
+  };
+};
+
+/**
+ * Validate the changes from the merge base of two refs to the head ref
+ * @param owner The repository owner
+ * @param repo The repository name
+ * @param base The base ref
+ * @param head The head ref
+ * @param options Validation options
+ * @returns Validation results
+ */
+const validateComparison = async (
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  options: ValidationOptions
+): Promise<ValidationResult> => {
+  // Pin the head so the config, tree and files all come from the same commit
+  const { data: headCommit } = await octokit.rest.repos.getCommit({
+    owner,
+    repo,
+    ref: head,
+    per_page: 1
+  });
+  
+  const { data: comparison } = await octokit.rest.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${base}...${headCommit.sha}`
+  });
+  const files: PrFile[] = comparison.files ?? [];
+  const baseSha = comparison.merge_base_commit.sha;
+  const context = await preparePrValidation(owner, repo, headCommit.sha, baseSha, options);
+  const validation = await validatePrFiles(context, files);
+  
+  // GitHub doesn't tell how many files are left, so report that the list was cut
+  if (files.length >= MAX_COMPARISON_FILES) {
+    validation.uncheckedFiles.push({
+      filename: `${base}...${head}`,
+      reason: `Only the first ${files.length} changed files are listed by GitHub, the others were not checked`
+    });
+  }
+  
+  return {
+    pr: {
+      title: `${base}...${head}`,
+      url: comparison.html_url,
+      author: headCommit.author?.login ?? headCommit.commit.author?.name ?? 'unknown',
+      headSha: headCommit.sha
+    },
+    ref: {
+      repo: `${owner}/${repo}`,
+      base,
+      baseSha,
+      head,
+      commits: comparison.ahead_by
+    },
+    config: context.config.applied,
+    ...validation
+  };
+};
+
+/**
+ * Validate the changes between two refs of a repository, e.g. a branch before its PR is opened,
+ * or the changes of a single commit, e.g. on main after a merge.
+ * The result has the same shape as a PR validation, with the PR summary describing the refs.
+ * @param repository The repository URL or owner/repo name
+ * @param range base...head, or a single commit SHA or ref
+ * @param options Validation options
+ * @returns Validation results
+ */
+export const validateRefs = async (
+  repository: string,
+  range: string,
+  options: ValidationOptions = {}
+): Promise<ValidationResult> => {
+  const { owner, repo } = parseGitHubRepo(repository);
+  const { base, head } = parseRefRange(range);
+  
+  try {
+    return base === undefined
+      ? await validateCommit(owner, repo, head, options)
+      : await validateComparison(owner, repo, base, head, options);
+  } catch (error: any) {
+    console.error('Error validating refs:', error);
+    throw new Error(`Failed to validate ${owner}/${repo}@${range.trim()}: ${error.message}`);
+  }
+};
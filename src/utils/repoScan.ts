@@ -0,0 +1,132 @@
+import { mapConcurrent } from './concurrency';
+import { octokit } from './github';
+import { getBlobContent, getRepoTreeFiles, getValidatorConfig, parseGitHubRepo } from './prValidator';
+import { isE2eFile, measureFileContent, SOURCE_FILE_PATTERN } from './rules/engine';
+import type { DirectoryProgress, Issue, RuleProgress, ScanResult } from './types';
+
+// Blobs fetched at the same time
+const SCAN_CONCURRENCY = 8;
+
+// Directory levels below the e2e root progress is reported for, e.g. e2e/pages/Wallet
+export const SCAN_DIRECTORY_DEPTH = 2;
+
+/**
+ * Get the directory a file's progress is reported under
+ * @param filename Path of the file in the repository
+ * @param root The e2e root the file is under
+ * @param depth Directory levels below the root
+ * @returns The directory, without trailing slash
+ */
+export const getProgressDirectory = (filename: string, root: string, depth: number = SCAN_DIRECTORY_DEPTH): string => {
+  const directories = filename.substring(root.length).split('/').slice(0, -1).slice(0, depth);
+  return [root.replace(/\/$/, ''), ...directories].join('/');
+};
+
+/**
+ * Share of the targets that are migrated, rounded to one decimal
+ * @param progress The progress counts
+ * @returns The percentage, 100 when there is nothing to migrate
+ */
+const getPercentMigrated = ({ total, legacy }: RuleProgress): number =>
+  total === 0 ? 100 : Math.round(((total - legacy) / total) * 1000) / 10;
+
+/**
+ * Add the counts of a rule to a progress record
+ * @param rules The progress per rule id
+ * @param ruleId The rule id
+ * @param total Number of targets
+ * @param legacy Number of targets not migrated yet
+ */
+const addProgress = (rules: Record<string, RuleProgress>, ruleId: string, total: number, legacy: number) => {
+  const progress = rules[ruleId] ?? (rules[ruleId] = { total: 0, legacy: 0 });
+  progress.total += total;
+  progress.legacy += legacy;
+};
+
+
+/**
+ * Scan every file under the e2e roots of a repository revision and measure how far the
+ * migration has gone, overall and per directory
+ * @param repository The repository URL or owner/repo name
+ * @param ref The branch, tag or commit SHA to scan
+ * @returns The scan report
+ */
+export const scanRepository = async (repository: string, ref: string): Promise<ScanResult> => {
+  const { owner, repo } = parseGitHubRepo(repository);
+  
+  // Pin the ref so the config, tree and blobs all come from the same commit
+  const { data: commit } = await octokit.rest.repos.getCommit({
+    owner,
+    repo,
+    ref
+  });
+  const sha = commit.sha;
+  
+  const [config, treeFiles] = await Promise.all([
+    getValidatorConfig(owner, repo, sha),
+    getRepoTreeFiles(owner, repo, sha)
+  ]);
+  
+  if (!treeFiles) {
+    throw new Error(`Tree of ${owner}/${repo}@${ref} is too large to scan`);
+  }
+  
+  const e2eRoots = config.applied.e2eRoots;
+  const files = treeFiles.filter(file =>
+    SOURCE_FILE_PATTERN.test(file.path) && isE2eFile(file.path, config)
+  );
+  
+  // Rules can target the same code, so the totals come from the files rather than from the rules
+  const overall: RuleProgress = { total: 0, legacy: 0 };
+  const rules: Record<string, RuleProgress> = {};
+  const directories = new Map<string, { filesScanned: number; progress: RuleProgress; rules: Record<string, RuleProgress> }>();
+  const offenders: Issue[] = [];
+  
+  const scanFile = async (path: string, blobSha: string) => {
+    const content = await getBlobContent(owner, repo, blobSha);
+    const root = e2eRoots.find(e2eRoot => path.startsWith(e2eRoot))!;
+    const directoryName = getProgressDirectory(path, root);
+    
+    const directory = directories.get(directoryName) ?? { filesScanned: 0, progress: { total: 0, legacy: 0 }, rules: {} };
+    directories.set(directoryName, directory);
+    directory.filesScanned++;
+    
+    const measurement = measureFileContent(path, content, config);
+    for (const progress of [overall, directory.progress]) {
+      progress.total += measurement.targets;
+      progress.legacy += measurement.legacy;
+    }
+    
+    for (const { ruleId, targets, legacy, issues } of measurement.rules) {
+      addProgress(rules, ruleId, targets, legacy);
+      addProgress(directory.rules, ruleId, targets, legacy);
+      offenders.push(...issues);
+    }
+  };
+  
+  // Fetch blobs a few at a time to stay clear of the secondary rate limits
+  await mapConcurrent(files, SCAN_CONCURRENCY, file => scanFile(file.path, file.sha));
+  
+  return {
+    repo: `${owner}/${repo}`,
+    ref,
+    sha,
+    config: config.applied,
+    filesScanned: files.length,
+    ...overall,
+    percentMigrated: getPercentMigrated(overall),
+    rules,
+    directories: [...directories.entries()]
+      .map(([directory, { filesScanned, progress, rules }]): DirectoryProgress => ({
+        directory,
+        filesScanned,
+        ...progress,
+        percentMigrated: getPercentMigrated(progress),
+        rules
+      }))
+      .sort((a, b) => a.directory.localeCompare(b.directory)),
+    offenders: offenders.sort((a, b) =>
+      a.file.localeCompare(b.file) || Number(a.line) - Number(b.line)
+    )
+  };
+};
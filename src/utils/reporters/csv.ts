@@ -0,0 +1,45 @@
+import { getIssueSeverity } from '../severity';
+import { getIssueLine } from './helpers';
+import type { Reporter } from './types';
+
+const CSV_COLUMNS = ['file', 'line', 'column', 'rule', 'severity', 'origin', 'message', 'code', 'introduced_by'];
+
+/**
+ * Quote a CSV field when needed
+ * @param value The field value
+ * @returns The field as written in the CSV
+ */
+const toCsvField = (value: string | number | undefined): string => {
+  let text = value === undefined ? '' : String(value);
+  
+  // Code from the PR could otherwise be evaluated as a formula by spreadsheets
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvReporter: Reporter = {
+  format: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  contentType: 'text/csv; charset=utf-8',
+  render: (result, rules) => {
+    const rows = result.issues.map(issue => [
+      issue.file,
+      getIssueLine(issue),
+      issue.range?.startColumn,
+      issue.checkType,
+      getIssueSeverity(issue, rules),
+      issue.origin,
+      issue.message ?? rules.find(rule => rule.id === issue.checkType)?.summary,
+      issue.importStatement,
+      issue.introducedBy?.sha
+    ]);
+    
+    return [CSV_COLUMNS, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+  }
+};
+
+export default csvReporter;
@@ -0,0 +1,37 @@
+import type { RuleInfo } from '../rules/types';
+import { countIssues } from '../severity';
+import type { Issue, IssueCounts, ValidationResult } from '../types';
+
+/**
+ * Get the issue counts of a validation result
+ * @param result The validation result
+ * @param rules The rules describing the issues
+ * @returns The counts of the result, or counted from its issues for results recorded without them
+ */
+export const getReportedCounts = (result: ValidationResult, rules: RuleInfo[]): IssueCounts =>
+  result.counts ?? countIssues(result.issues, rules);
+
+/**
+ * Get the line an issue starts on
+ * @param issue The issue
+ * @returns The line number, or the line as reported when the rule couldn't locate it
+ */
+export const getIssueLine = (issue: Issue): number | string =>
+  issue.range?.startLine ?? issue.line;
+
+/**
+ * Group issues by file, then by rule id, in the order they were reported
+ * @param issues The issues
+ * @returns The issues per rule id per file
+ */
+export const groupIssuesByFileAndRule = (issues: Issue[]): Map<string, Map<string, Issue[]>> => {
+  const groups = new Map<string, Map<string, Issue[]>>();
+  
+  for (const issue of issues) {
+    const fileGroups = groups.get(issue.file) ?? new Map<string, Issue[]>();
+    groups.set(issue.file, fileGroups);
+    fileGroups.set(issue.checkType, [...(fileGroups.get(issue.checkType) ?? []), issue]);
+  }
+  
+  return groups;
+};
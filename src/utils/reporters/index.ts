@@ -0,0 +1,31 @@
+import csvReporter from './csv';
+import junitReporter from './junit';
+import markdownReporter from './markdown';
+import sarifReporter from './sarif';
+import type { Reporter } from './types';
+
+export type { Reporter } from './types';
+
+const jsonReporter: Reporter = {
+  format: 'json',
+  label: 'JSON',
+  extension: 'json',
+  contentType: 'application/json',
+  render: result => JSON.stringify(result, null, 2)
+};
+
+// The report formats, selected by the format parameter of /api/validate and in the UI downloads
+export const REPORTERS: Reporter[] = [
+  jsonReporter,
+  markdownReporter,
+  csvReporter,
+  junitReporter,
+  sarifReporter
+];
+
+/**
+ * Look up a reporter by its format
+ * @param format The format
+ * @returns The reporter or undefined if no reporter has that format
+ */
+export const getReporter = (format: string) => REPORTERS.find(reporter => reporter.format === format);
@@ -0,0 +1,86 @@
+import { getIssueSeverity, isBlockingSeverity } from '../severity';
+import type { Issue } from '../types';
+import { getIssueLine } from './helpers';
+import type { Reporter } from './types';
+
+/**
+ * Escape text for an XML attribute or element
+ * @param text The text
+ * @returns The escaped text, without the control characters XML doesn't allow
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Describe the issues of a test case, one per line
+ * @param issues The issues
+ * @returns The description
+ */
+const describeIssues = (issues: Issue[]): string =>
+  issues.map(issue => `line ${getIssueLine(issue)}: ${issue.importStatement.trim()}`).join('\n');
+
+const junitReporter: Reporter = {
+  format: 'junit',
+  label: 'JUnit XML',
+  extension: 'xml',
+  contentType: 'application/xml; charset=utf-8',
+  render: (result, rules) => {
+    const failOn = result.config.failOn ?? 'error';
+    const ruleIds = rules.map(rule => rule.id).filter(id => !result.config.disabledRules.includes(id));
+    for (const issue of result.issues) {
+      if (!ruleIds.includes(issue.checkType)) {
+        ruleIds.push(issue.checkType);
+      }
+    }
+    
+    // Each file the rules ran on is a suite, with a test case per rule
+    const validatedFiles = result.files
+      ? result.files.filter(file => file.status.startsWith('validated')).map(file => file.filename)
+      : result.checkedFiles;
+    const files = [...new Set([...validatedFiles, ...result.issues.map(issue => issue.file)])];
+    
+    let failures = 0;
+    const suites = files.map(file => {
+      let suiteFailures = 0;
+      const testCases = ruleIds.map(ruleId => {
+        const issues = result.issues.filter(issue => issue.file === file && issue.checkType === ruleId);
+        const name = escapeXml(`${ruleId}: ${rules.find(rule => rule.id === ruleId)?.summary ?? ruleId}`);
+        const blocking = issues.filter(issue => isBlockingSeverity(getIssueSeverity(issue, rules), failOn));
+        const other = issues.filter(issue => !blocking.includes(issue));
+        
+        // Issues below the failing severity are reported without failing the test case
+        const body = [
+          blocking.length > 0 && `      <failure type="${getIssueSeverity(blocking[0], rules)}" message="${blocking.length} issue(s)">${escapeXml(describeIssues(blocking))}</failure>`,
+          other.length > 0 && `      <system-out>${escapeXml(describeIssues(other))}</system-out>`
+        ].filter(Boolean);
+        
+        if (blocking.length > 0) {
+          suiteFailures++;
+        }
+        
+        return body.length > 0
+          ? `    <testcase classname="${escapeXml(file)}" name="${name}">\n${body.join('\n')}\n    </testcase>`
+          : `    <testcase classname="${escapeXml(file)}" name="${name}"/>`;
+      });
+      
+      failures += suiteFailures;
+      return `  <testsuite name="${escapeXml(file)}" tests="${ruleIds.length}" failures="${suiteFailures}">\n${testCases.join('\n')}\n  </testsuite>`;
+    });
+    
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="PR Migration Validator" tests="${files.length * ruleIds.length}" failures="${failures}">`,
+      ...suites,
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+};
+
+export default junitReporter;
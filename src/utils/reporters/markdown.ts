@@ -0,0 +1,53 @@
+import { formatSeverityCounts, getIssueSeverity } from '../severity';
+import { getIssueLine, getReportedCounts, groupIssuesByFileAndRule } from './helpers';
+import type { Reporter } from './types';
+
+/**
+ * Make text safe to put in a markdown table cell
+ * @param text The text
+ * @returns The escaped text, on a single line
+ */
+const escapeCell = (text: string): string =>
+  text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const markdownReporter: Reporter = {
+  format: 'markdown',
+  label: 'Markdown',
+  extension: 'md',
+  contentType: 'text/markdown; charset=utf-8',
+  render: (result, rules) => {
+    const { pr, issues } = result;
+    const title = pr.url ? `[${pr.title}](${pr.url})` : pr.title;
+    const lines = [`### 🦊 PR Migration Validator: ${title}`, ''];
+    
+    const files = new Set(issues.map(issue => issue.file)).size;
+    const verdict = result.verdict ? `**${result.verdict.toUpperCase()}** · ` : '';
+    lines.push(issues.length === 0
+      ? `${verdict}✅ All checks passed successfully! (${result.filesChecked} file(s) checked)`
+      : `${verdict}${issues.length} issue(s) in ${files} file(s) (${formatSeverityCounts(getReportedCounts(result, rules))}), ${result.filesChecked} file(s) checked`);
+    
+    if (issues.length > 0) {
+      lines.push('', '| File | Rule | Severity | Issues | Lines |', '| --- | --- | --- | ---: | --- |');
+      
+      for (const [file, fileGroups] of groupIssuesByFileAndRule(issues)) {
+        for (const [ruleId, ruleIssues] of fileGroups) {
+          const rule = rules.find(candidate => candidate.id === ruleId);
+          lines.push(`| \`${escapeCell(file)}\` | ${escapeCell(rule?.summary ?? ruleId)} (\`${ruleId}\`) | ${getIssueSeverity(ruleIssues[0], rules)} | ${ruleIssues.length} | ${ruleIssues.map(getIssueLine).join(', ')} |`);
+        }
+      }
+    }
+    
+    const unchecked = (result.uncheckedFiles?.length ?? 0) + (result.unlistedFiles ?? 0);
+    if (unchecked > 0) {
+      lines.push('', `❔ ${unchecked} file(s) could not be checked.`);
+    }
+    
+    if (result.suppressedIssues?.length) {
+      lines.push('', `🔇 ${result.suppressedIssues.length} finding(s) suppressed by a directive.`);
+    }
+    
+    return `${lines.join('\n')}\n`;
+  }
+};
+
+export default markdownReporter;
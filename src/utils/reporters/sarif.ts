@@ -0,0 +1,197 @@
+import type { RuleInfo } from '../rules/types';
+import type { Issue, Severity, SourceRange, ValidationResult } from '../types';
+import type { Reporter } from './types';
+
+// Version of the SARIF format produced by the reporter
+export const SARIF_VERSION = '2.1.0';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// Name of the tool in SARIF viewers and GitHub code scanning
+const TOOL_NAME = 'PR Migration Validator';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+const SARIF_LEVELS: Record<Severity, SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+};
+
+/**
+ * A SARIF region, with 1-based lines and columns and an exclusive end column
+ */
+interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  snippet?: { text: string };
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: SarifRegion;
+    };
+  }[];
+  fixes?: {
+    description: { text: string };
+    artifactChanges: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      replacements: { deletedRegion: SarifRegion; insertedContent: { text: string } }[];
+    }[];
+  }[];
+  suppressions?: { kind: 'inSource'; justification: string }[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: {
+    tool: { driver: { name: string; rules: SarifReportingDescriptor[] } };
+    versionControlProvenance?: { repositoryUri: string; revisionId?: string }[];
+    results: SarifResult[];
+  }[];
+}
+
+/**
+ * Convert a source range to a SARIF region
+ * @param range The source range
+ * @returns The region
+ */
+const toRegion = (range: SourceRange): SarifRegion => ({
+  startLine: range.startLine,
+  startColumn: range.startColumn,
+  endLine: range.endLine,
+  endColumn: range.endColumn
+});
+
+/**
+ * Describe a rule for the SARIF log
+ * @param rule The rule, or undefined for a rule this server doesn't know
+ * @param id The rule id
+ * @returns The reporting descriptor
+ */
+const toReportingDescriptor = (rule: RuleInfo | undefined, id: string): SarifReportingDescriptor => ({
+  id,
+  name: rule?.title ?? id,
+  shortDescription: { text: rule?.summary ?? id },
+  fullDescription: { text: rule?.description ?? rule?.summary ?? id },
+  defaultConfiguration: { level: SARIF_LEVELS[rule?.severity ?? 'error'] }
+});
+
+/**
+ * Convert an issue to a SARIF result
+ * @param issue The issue
+ * @param ruleIndex Index of the rule of the issue in the driver rules
+ * @param rule The rule of the issue
+ * @returns The result
+ */
+const toSarifResult = (issue: Issue, ruleIndex: number, rule: RuleInfo | undefined): SarifResult => {
+  const artifactLocation = { uri: issue.file, uriBaseId: '%SRCROOT%' };
+  // Issues without a range still need a line for code scanning to accept them
+  const line = issue.range?.startLine ?? (Number(issue.line) || 1);
+  
+  return {
+    ruleId: issue.checkType,
+    ruleIndex,
+    level: SARIF_LEVELS[issue.severity ?? rule?.severity ?? 'error'],
+    message: { text: issue.message ?? rule?.summary ?? issue.checkType },
+    locations: [{
+      physicalLocation: {
+        artifactLocation,
+        region: {
+          ...(issue.range ? toRegion(issue.range) : { startLine: line }),
+          snippet: { text: issue.importStatement }
+        }
+      }
+    }],
+    ...(issue.suggestedFix && {
+      fixes: [{
+        description: { text: `Replace with: ${issue.suggestedFix.preview}` },
+        artifactChanges: [{
+          artifactLocation,
+          replacements: [{
+            deletedRegion: toRegion(issue.suggestedFix.range),
+            insertedContent: { text: issue.suggestedFix.replacement }
+          }]
+        }]
+      }]
+    }),
+    ...(issue.suppression && {
+      suppressions: [{ kind: 'inSource' as const, justification: issue.suppression.reason }]
+    }),
+    ...(issue.origin && { properties: { origin: issue.origin } })
+  };
+};
+
+/**
+ * Get the repository URL a validated PR, comparison or commit link points into
+ * @param url The link of the validation result
+ * @returns The repository URL, or undefined for uploaded diffs
+ */
+const getRepositoryUri = (url: string): string | undefined =>
+  url.match(/^https?:\/\/[^\/]+\/[^\/]+\/[^\/]+/)?.[0];
+
+/**
+ * Convert a validation result to a SARIF 2.1.0 log, e.g. to upload it to GitHub code scanning.
+ * Findings disabled by a suppression directive are included as suppressed results.
+ * @param result The validation result
+ * @param ruleInfos The rules to describe, usually every registered rule
+ * @returns The SARIF log
+ */
+export const toSarif = (result: ValidationResult, ruleInfos: RuleInfo[]): SarifLog => {
+  // The repository config can change the severity of the rules
+  const rules = ruleInfos.map(rule => ({ ...rule, severity: result.config.severities?.[rule.id] ?? rule.severity }));
+  const descriptors = rules.map(rule => toReportingDescriptor(rule, rule.id));
+  const issues = [...result.issues, ...(result.suppressedIssues ?? [])];
+  
+  // Rules removed since the result was recorded still need a descriptor
+  for (const issue of issues) {
+    if (!descriptors.some(descriptor => descriptor.id === issue.checkType)) {
+      descriptors.push(toReportingDescriptor(undefined, issue.checkType));
+    }
+  }
+  
+  const repositoryUri = getRepositoryUri(result.pr.url);
+  
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules: descriptors } },
+      ...(repositoryUri && {
+        versionControlProvenance: [{ repositoryUri, ...(result.pr.headSha && { revisionId: result.pr.headSha }) }]
+      }),
+      results: issues.map(issue => {
+        const ruleIndex = descriptors.findIndex(descriptor => descriptor.id === issue.checkType);
+        return toSarifResult(issue, ruleIndex, rules.find(rule => rule.id === issue.checkType));
+      })
+    }]
+  };
+};
+
+const sarifReporter: Reporter = {
+  format: 'sarif',
+  label: 'SARIF',
+  extension: 'sarif',
+  contentType: 'application/sarif+json',
+  render: (result, rules) => JSON.stringify(toSarif(result, rules), null, 2)
+};
+
+export default sarifReporter;
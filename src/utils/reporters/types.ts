@@ -0,0 +1,16 @@
+import type { RuleInfo } from '../rules/types';
+import type { ValidationResult } from '../types';
+
+/**
+ * Renders validation results in a file format, for the API and the UI downloads
+ */
+export interface Reporter {
+  // Value of the format parameter selecting the reporter
+  format: string;
+  label: string;
+  // Extension of the downloaded file, without the dot
+  extension: string;
+  contentType: string;
+  // The rules describe the issues; reporters run in the browser too, so they can't load them
+  render: (result: ValidationResult, rules: RuleInfo[]) => string;
+}
@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { StoredValidationResult, ValidationOptions, ValidationResult } from './types';
+
+// Where the results shared by permalink are stored, one file per result
+const RESULTS_DIR = process.env.RESULTS_DIR ?? join(process.cwd(), '.data', 'results');
+
+// Days a stored result is kept, 0 keeps results forever
+const RETENTION_DAYS = Number(process.env.RESULTS_RETENTION_DAYS ?? 30);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get when a stored result expires under the current retention policy
+ * @param savedAt ISO 8601 time the result was stored at
+ * @returns ISO 8601 expiry time, or null when results are kept forever
+ */
+const getExpiry = (savedAt: string): string | null =>
+  RETENTION_DAYS > 0 ? new Date(Date.parse(savedAt) + RETENTION_DAYS * DAY_MS).toISOString() : null;
+
+/**
+ * Get the id of a result: the same PR, or refs, at the same head commit validated with the same options
+ * and config always get the same id, so a result is only replaced by one that reports the same thing
+ * @param result The validation result
+ * @param options The options the validation ran with
+ * @returns The result id
+ */
+const getResultId = (result: ValidationResult, options: ValidationOptions): string => {
+  const settings = JSON.stringify({
+    fullFile: Boolean(options.fullFile),
+    // Only attribution to commits sets the resolved issues
+    attributeCommits: result.resolvedIssues !== undefined,
+    config: result.config
+  });
+  return createHash('sha256')
+    .update(`${result.pr.url}@${result.pr.headSha}\n${settings}`)
+    .digest('hex')
+    .substring(0, 16);
+};
+
+/**
+ * Delete the stored results older than the retention period
+ */
+const pruneExpiredResults = async () => {
+  if (!(RETENTION_DAYS > 0)) {
+    return;
+  }
+  
+  const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+  for (const name of await readdir(RESULTS_DIR)) {
+    const path = join(RESULTS_DIR, name);
+    // Results are only ever written at once, so the modification time is when they were stored
+    if ((await stat(path)).mtimeMs < cutoff) {
+      await unlink(path);
+    }
+  }
+};
+
+/**
+ * Store a validation result so it can be shared by permalink, replacing the result of a previous
+ * validation of the same PR at the same head commit with the same options and config, and delete the expired results
+ * @param result The validation result
+ * @param options The options the validation ran with
+ * @returns The result id, or undefined if it couldn't be stored
+ */
+export const saveResult = async (
+  result: ValidationResult,
+  options: ValidationOptions = {}
+): Promise<string | undefined> => {
+  // Uploaded diffs have no repository to key them by
+  if (!result.pr.url) {
+    return undefined;
+  }
+  
+  // The expiry follows the retention policy when the result is read, so it isn't stored
+  const stored: Omit<StoredValidationResult, 'expiresAt'> = {
+    id: getResultId(result, options),
+    savedAt: new Date().toISOString(),
+    result
+  };
+  
+  // Sharing is a side feature, it must never make a validation fail
+  try {
+    await mkdir(RESULTS_DIR, { recursive: true });
+    await writeFile(join(RESULTS_DIR, `${stored.id}.json`), JSON.stringify(stored));
+    await pruneExpiredResults();
+    return stored.id;
+  } catch (error: any) {
+    console.error('Error storing validation result:', error.message);
+    return undefined;
+  }
+};
+
+/**
+ * Read a stored validation result
+ * @param id The result id
+ * @returns The stored result, or undefined if there is no result with that id or it expired
+ */
+export const getStoredResult = async (id: string): Promise<StoredValidationResult | undefined> => {
+  // Ids are generated by getResultId, anything else could point outside the store
+  if (!/^[0-9a-f]{16}$/.test(id)) {
+    return undefined;
+  }
+  
+  let stored: Omit<StoredValidationResult, 'expiresAt'>;
+  try {
+    stored = JSON.parse(await readFile(join(RESULTS_DIR, `${id}.json`), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  
+  // Expired results are only deleted on the next save, so don't serve them until then
+  const expiresAt = getExpiry(stored.savedAt);
+  if (expiresAt && Date.parse(expiresAt) < Date.now()) {
+    return undefined;
+  }
+  
+  return { ...stored, expiresAt, result: { ...stored.result, resultId: id } };
+};
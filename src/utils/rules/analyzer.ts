@@ -0,0 +1,386 @@
+import ts from 'typescript';
+import type { SourceRange } from '../types';
+
+/**
+ * A contiguous piece of the head revision of a file
+ */
+export interface SourceSegment {
+  // Head line number of the first line of the segment
+  startLine: number;
+  text: string;
+  // Head line numbers added in the PR
+  addedLines: Set<number>;
+}
+
+export interface ImportInfo {
+  moduleSpecifier: string;
+  // Range of the module path, without its quotes
+  moduleSpecifierRange: SourceRange;
+  // Imported names: the default binding, the original name of each named import and the namespace binding
+  names: string[];
+  text: string;
+  range: SourceRange;
+  // Whether any line of the declaration was added in the PR
+  added: boolean;
+}
+
+export interface GetterInfo {
+  name: string;
+  // Return type annotation as written, or undefined when the getter is untyped
+  returnType?: string;
+  text: string;
+  range: SourceRange;
+  added: boolean;
+}
+
+export interface TestBlockInfo {
+  text: string;
+  range: SourceRange;
+  hasWithFixtures: boolean;
+  added: boolean;
+}
+
+export interface SuppressionDirective {
+  // next-line disables rules on the line below the comment, file on the whole file
+  scope: 'next-line' | 'file';
+  // Rule ids the directive disables, every rule when empty
+  ruleIds: string[];
+  // Justification given after --
+  reason?: string;
+  text: string;
+  range: SourceRange;
+  added: boolean;
+}
+
+export interface FileAnalysis {
+  imports: ImportInfo[];
+  getters: GetterInfo[];
+  testBlocks: TestBlockInfo[];
+  directives: SuppressionDirective[];
+}
+
+// Comments disabling rules, e.g. // migration-validator-disable-next-line getter-type -- reason
+const DIRECTIVE_PATTERN = /^(?:\/\/|\/\*)\s*migration-validator-disable-(next-line|file)(?=\s|\*\/|$)(.*?)(?:\*\/)?\s*$/;
+
+// Prefix used to parse a piece of a segment as a class body
+const CLASS_WRAPPER = 'class __Segment {\n';
+
+// Lines that may start a getter accessor, optionally behind modifiers
+const GETTER_CANDIDATE = /^\s*(?:(?:public|private|protected|static|override|readonly)\s+)*get\s+[\w$#]/;
+
+/**
+ * Split a unified diff patch into one segment per hunk, holding the head-side lines
+ * @param patch The patch of a file
+ * @returns Array of segments
+ */
+export const getPatchSegments = (patch: string): SourceSegment[] => {
+  const hunks: { startLine: number; lines: string[]; addedLines: Set<number> }[] = [];
+  
+  for (const line of patch.split('\n')) {
+    const hunkHeader = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkHeader) {
+      hunks.push({ startLine: parseInt(hunkHeader[1], 10), lines: [], addedLines: new Set() });
+      continue;
+    }
+    
+    const current = hunks[hunks.length - 1];
+    
+    // Skip removed lines, file headers and "\ No newline at end of file" markers
+    if (!current || line.startsWith('-') || line.startsWith('\\')) {
+      continue;
+    }
+    
+    if (line.startsWith('+')) {
+      current.addedLines.add(current.startLine + current.lines.length);
+    }
+    current.lines.push(line.substring(1));
+  }
+  
+  return hunks.map(({ startLine, lines, addedLines }) => ({
+    startLine,
+    text: lines.join('\n'),
+    addedLines
+  }));
+};
+
+/**
+ * Convert a node position to a range in the head revision
+ * @param sourceFile The parsed segment
+ * @param start Start offset in the segment
+ * @param end End offset in the segment
+ * @param lineOffset Head line number of the first line of the parsed text
+ * @returns The source range
+ */
+const toRange = (sourceFile: ts.SourceFile, start: number, end: number, lineOffset: number): SourceRange => {
+  const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+  const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+  
+  return {
+    startLine: startPos.line + lineOffset,
+    startColumn: startPos.character + 1,
+    endLine: endPos.line + lineOffset,
+    endColumn: endPos.character + 1
+  };
+};
+
+/**
+ * Check whether any line of a range was added in the PR
+ * @param range The source range
+ * @param addedLines Head line numbers added in the PR
+ * @returns boolean indicating if the range touches an added line
+ */
+const touchesAddedLine = (range: SourceRange, addedLines: Set<number>): boolean => {
+  for (let line = range.startLine; line <= range.endLine; line++) {
+    if (addedLines.has(line)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Get the trimmed text of the line a range starts on
+ * @param sourceFile The parsed segment
+ * @param start Start offset in the segment
+ * @returns The line text
+ */
+const getStartLineText = (sourceFile: ts.SourceFile, start: number): string => {
+  const { line } = sourceFile.getLineAndCharacterOfPosition(start);
+  const lineStarts = sourceFile.getLineStarts();
+  const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] : sourceFile.text.length;
+  return sourceFile.text.substring(lineStarts[line], lineEnd).trim();
+};
+
+/**
+ * Collect the names bound or imported by an import declaration
+ * @param node The import declaration
+ * @returns Array of imported names
+ */
+const getImportedNames = (node: ts.ImportDeclaration): string[] => {
+  const names: string[] = [];
+  const clause = node.importClause;
+  
+  if (!clause) {
+    return names;
+  }
+  
+  if (clause.name) {
+    names.push(clause.name.text);
+  }
+  
+  if (clause.namedBindings) {
+    if (ts.isNamespaceImport(clause.namedBindings)) {
+      names.push(clause.namedBindings.name.text);
+    } else {
+      for (const element of clause.namedBindings.elements) {
+        names.push((element.propertyName ?? element.name).text);
+      }
+    }
+  }
+  
+  return names;
+};
+
+/**
+ * Check whether a call expression is a test declaration such as it(), it.only() or it.skip()
+ * @param node The call expression
+ * @returns boolean indicating if the call declares a test
+ */
+const isTestDeclaration = (node: ts.CallExpression): boolean => {
+  const callee = node.expression;
+  
+  if (ts.isIdentifier(callee)) {
+    return callee.text === 'it';
+  }
+  
+  return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === 'it';
+};
+
+/**
+ * Check whether a node contains a withFixtures() call
+ * @param node The node to search
+ * @returns boolean indicating if withFixtures is called
+ */
+const containsWithFixtures = (node: ts.Node): boolean => {
+  if (ts.isCallExpression(node)) {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee) && callee.text === 'withFixtures') {
+      return true;
+    }
+    if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === 'withFixtures') {
+      return true;
+    }
+  }
+  
+  return ts.forEachChild(node, containsWithFixtures) ?? false;
+};
+
+/**
+ * Collect getter accessors from a segment.
+ * Hunks usually start somewhere inside a class body, where getters don't parse at the top level,
+ * so each line that may start a getter is parsed as the first member of a wrapper class.
+ * @param filename The file name
+ * @param segment The segment to search
+ * @returns Array of getters found
+ */
+const collectGetters = (filename: string, segment: SourceSegment): GetterInfo[] => {
+  const getters: GetterInfo[] = [];
+  const lines = segment.text.split('\n');
+  
+  lines.forEach((line, index) => {
+    if (!GETTER_CANDIDATE.test(line)) {
+      return;
+    }
+    
+    const snippet = `${CLASS_WRAPPER}${lines.slice(index).join('\n')}\n}`;
+    const sourceFile = ts.createSourceFile(filename, snippet, ts.ScriptTarget.Latest, true);
+    const wrapper = sourceFile.statements[0];
+    const member = wrapper && ts.isClassDeclaration(wrapper) ? wrapper.members[0] : undefined;
+    
+    if (!member || !ts.isGetAccessorDeclaration(member)) {
+      return;
+    }
+    
+    const start = member.getStart(sourceFile);
+    // Report the signature only, not the whole body
+    const end = member.type ? member.type.getEnd() : member.parameters.end + 1;
+    // The wrapper occupies the first line of the snippet
+    const range = toRange(sourceFile, start, end, segment.startLine + index - 1);
+    
+    getters.push({
+      name: member.name.getText(sourceFile),
+      returnType: member.type?.getText(sourceFile).replace(/\s+/g, ''),
+      text: line.trim(),
+      range,
+      added: touchesAddedLine(range, segment.addedLines)
+    });
+  });
+  
+  return getters;
+};
+
+/**
+ * List the comments of a parsed segment, from the comment ranges the scanner finds around its nodes
+ * and tokens, so that directive-like text inside strings and templates is left out
+ * @param sourceFile The parsed segment
+ * @returns The comment ranges, in source order
+ */
+const collectCommentRanges = (sourceFile: ts.SourceFile): ts.CommentRange[] => {
+  const text = sourceFile.getFullText();
+  const comments = new Map<number, ts.CommentRange>();
+  const jsxTexts: ts.JsxText[] = [];
+  
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxText(node)) {
+      jsxTexts.push(node);
+    }
+    for (const comment of [...ts.getLeadingCommentRanges(text, node.pos) ?? [], ...ts.getTrailingCommentRanges(text, node.end) ?? []]) {
+      comments.set(comment.pos, comment);
+    }
+    node.getChildren(sourceFile).forEach(visit);
+  };
+  visit(sourceFile);
+  
+  // JSX text is content, the scanner reads comment-like text in it as comments all the same
+  return [...comments.values()]
+    .filter(comment => !jsxTexts.some(jsxText => comment.pos >= jsxText.pos && comment.pos < jsxText.end))
+    .sort((a, b) => a.pos - b.pos);
+};
+
+/**
+ * Collect the suppression directives written in the comments of a segment
+ * @param sourceFile The parsed segment
+ * @param segment The segment to search
+ * @returns Array of directives found
+ */
+const collectDirectives = (sourceFile: ts.SourceFile, segment: SourceSegment): SuppressionDirective[] =>
+  collectCommentRanges(sourceFile).flatMap((comment): SuppressionDirective[] => {
+    // Directives are read from the first line of block comments
+    const line = segment.text.substring(comment.pos, comment.end).split('\n')[0];
+    const match = line.match(DIRECTIVE_PATTERN);
+    if (!match || match.index === undefined) {
+      return [];
+    }
+    
+    const [ruleList, ...reason] = match[2].split('--');
+    const range = toRange(sourceFile, comment.pos + match.index, comment.pos + line.trimEnd().length, segment.startLine);
+    
+    return [{
+      scope: match[1] as SuppressionDirective['scope'],
+      ruleIds: ruleList.split(/[\s,]+/).filter(Boolean),
+      reason: reason.join('--').trim() || undefined,
+      text: match[0].trim(),
+      range,
+      added: segment.addedLines.has(range.startLine)
+    }];
+  });
+
+/**
+ * Parse a segment of a file and extract the constructs the rules reason about
+ * @param filename The file name, used to pick the script kind
+ * @param segment The segment to analyze
+ * @returns The analysis of the segment
+ */
+const analyzeSegment = (filename: string, segment: SourceSegment): FileAnalysis => {
+  const sourceFile = ts.createSourceFile(filename, segment.text, ts.ScriptTarget.Latest, true);
+  const analysis: FileAnalysis = { imports: [], getters: [], testBlocks: [], directives: collectDirectives(sourceFile, segment) };
+  
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const range = toRange(sourceFile, node.getStart(sourceFile), node.getEnd(), segment.startLine);
+      analysis.imports.push({
+        moduleSpecifier: node.moduleSpecifier.text,
+        moduleSpecifierRange: toRange(
+          sourceFile,
+          node.moduleSpecifier.getStart(sourceFile) + 1,
+          node.moduleSpecifier.getEnd() - 1,
+          segment.startLine
+        ),
+        names: getImportedNames(node),
+        text: node.getText(sourceFile).replace(/\s+/g, ' '),
+        range,
+        added: touchesAddedLine(range, segment.addedLines)
+      });
+    }
+    
+    if (ts.isCallExpression(node) && isTestDeclaration(node)) {
+      const start = node.getStart(sourceFile);
+      // Report the test declaration up to its title
+      const end = node.arguments.length > 0 ? node.arguments[0].getEnd() : node.expression.getEnd();
+      const range = toRange(sourceFile, start, end, segment.startLine);
+      analysis.testBlocks.push({
+        text: getStartLineText(sourceFile, start),
+        range,
+        hasWithFixtures: node.arguments.some(containsWithFixtures),
+        added: segment.addedLines.has(range.startLine)
+      });
+    }
+    
+    ts.forEachChild(node, visit);
+  };
+  
+  visit(sourceFile);
+  analysis.getters.push(...collectGetters(filename, segment));
+  
+  return analysis;
+};
+
+/**
+ * Analyze every segment of a file
+ * @param filename The file name
+ * @param segments The segments of the head revision to analyze
+ * @returns The combined analysis
+ */
+export const analyzeSegments = (filename: string, segments: SourceSegment[]): FileAnalysis => {
+  const analysis: FileAnalysis = { imports: [], getters: [], testBlocks: [], directives: [] };
+  
+  for (const segment of segments) {
+    const segmentAnalysis = analyzeSegment(filename, segment);
+    analysis.imports.push(...segmentAnalysis.imports);
+    analysis.getters.push(...segmentAnalysis.getters);
+    analysis.testBlocks.push(...segmentAnalysis.testBlocks);
+    analysis.directives.push(...segmentAnalysis.directives);
+  }
+  
+  return analysis;
+};
@@ -0,0 +1,121 @@
+import { readFileSync } from 'fs';
+import defaultConfig from '../../config/migration-rules.json';
+import { SEVERITIES } from '../severity';
+import type { Severity } from './types';
+
+/**
+ * How to rewrite the module path of an offending import
+ */
+export interface ImportFixConfig {
+  // Module the import should point to, relative to the e2e root, either for every symbol
+  // or per imported symbol
+  modulePath?: string | Record<string, string>;
+  // Remove the parts of the module path matching the forbidden patterns
+  removeForbidden?: boolean;
+}
+
+/**
+ * Declarative rule mapping imported symbols or modules to the path they must be imported from
+ */
+export interface ImportRuleConfig {
+  id: string;
+  title?: string;
+  // Short one-line message reported for each finding
+  message: string;
+  description?: string;
+  severity?: Severity;
+  // Imported names or module base names the rule applies to
+  symbols: string[];
+  // Pattern the module path must match
+  requiredPath?: string;
+  // Patterns the module path must not match
+  forbiddenPatterns?: string[];
+  fix?: ImportFixConfig;
+}
+
+export interface MigrationConfig {
+  imports: ImportRuleConfig[];
+}
+
+/**
+ * Check that a value is an array of strings
+ * @param value The value to check
+ * @returns boolean indicating if the value is a string array
+ */
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Validate a raw migration config
+ * @param raw The parsed JSON
+ * @returns The migration config
+ */
+export const parseMigrationConfig = (raw: unknown): MigrationConfig => {
+  const config = raw as MigrationConfig;
+  
+  if (!config || !Array.isArray(config.imports)) {
+    throw new Error('Invalid migration rules config: "imports" must be an array');
+  }
+  
+  const ids = new Set<string>();
+  
+  for (const rule of config.imports) {
+    if (!rule || typeof rule.id !== 'string' || !rule.id) {
+      throw new Error('Invalid migration rules config: every rule needs an "id"');
+    }
+    if (ids.has(rule.id)) {
+      throw new Error(`Invalid migration rules config: duplicate rule id "${rule.id}"`);
+    }
+    ids.add(rule.id);
+    
+    if (typeof rule.message !== 'string') {
+      throw new Error(`Invalid migration rules config: rule "${rule.id}" needs a "message"`);
+    }
+    if (!isStringArray(rule.symbols) || rule.symbols.length === 0) {
+      throw new Error(`Invalid migration rules config: rule "${rule.id}" needs at least one symbol`);
+    }
+    if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+      throw new Error(`Invalid migration rules config: rule "${rule.id}" has an unknown severity "${rule.severity}"`);
+    }
+    if (rule.requiredPath === undefined && rule.forbiddenPatterns === undefined) {
+      throw new Error(`Invalid migration rules config: rule "${rule.id}" needs "requiredPath" or "forbiddenPatterns"`);
+    }
+    
+    if (rule.fix !== undefined) {
+      const { modulePath } = rule.fix;
+      const validModulePath = modulePath === undefined || typeof modulePath === 'string' ||
+        (typeof modulePath === 'object' && Object.values(modulePath).every(path => typeof path === 'string'));
+      
+      if (!validModulePath) {
+        throw new Error(`Invalid migration rules config: rule "${rule.id}" has an invalid "fix.modulePath"`);
+      }
+    }
+    
+    // Make sure every pattern compiles
+    for (const pattern of [rule.requiredPath ?? '', ...(rule.forbiddenPatterns ?? [])]) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new Error(`Invalid migration rules config: rule "${rule.id}" has an invalid pattern "${pattern}"`);
+      }
+    }
+  }
+  
+  return config;
+};
+
+/**
+ * Load the migration rules config, from the file named by MIGRATION_RULES_CONFIG if set
+ * or from the built-in defaults otherwise
+ * @returns The migration config
+ */
+export const loadMigrationConfig = (): MigrationConfig => {
+  const configPath = process.env.MIGRATION_RULES_CONFIG;
+  
+  if (!configPath) {
+    return parseMigrationConfig(defaultConfig);
+  }
+  
+  console.log('Loading migration rules config from', configPath);
+  return parseMigrationConfig(JSON.parse(readFileSync(configPath, 'utf8')));
+};
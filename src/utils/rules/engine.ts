@@ -0,0 +1,247 @@
+import type { FileReport, FileStatus, Issue, PrFile, SourceRange } from '../types';
+import { analyzeSegments, getPatchSegments, SourceSegment } from './analyzer';
+import { resolveConflictingFixes } from './helpers';
+import { DEFAULT_VALIDATOR_CONFIG } from './index';
+import { applySuppressions, FileIssues } from './suppressionDirective';
+import type { RepoTree, RuleContext, ValidatorConfig } from './types';
+
+/**
+ * How much of a file a rule applies to, and what in it breaks the rule
+ */
+export interface RuleMeasurement {
+  ruleId: string;
+  targets: number;
+  // Targets with at least one issue
+  legacy: number;
+  issues: Issue[];
+}
+
+/**
+ * How much of a file the rules apply to, and how much of it is still legacy
+ */
+export interface FileMeasurement {
+  rules: RuleMeasurement[];
+  // Distinct pieces of code the rules apply to: code targeted by several rules counts once
+  targets: number;
+  // Distinct targets with at least one issue of any rule
+  legacy: number;
+}
+
+// Source files the rules can analyze
+export const SOURCE_FILE_PATTERN = /\.(ts|tsx|js|jsx)$/;
+
+/**
+ * Extra sources of information about a file, beyond its patch
+ */
+export interface FileSources {
+  // The full head revision of the file
+  content?: string;
+  // Head lines added in the PR, when the patch isn't available to read them from
+  addedLines?: Set<number>;
+  tree?: RepoTree;
+}
+
+/**
+ * Check whether a file is under one of the e2e roots
+ * @param filename Path of the file in the repository
+ * @param config The rules and settings to validate with
+ * @returns boolean indicating if the file is an e2e file
+ */
+export const isE2eFile = (filename: string, config: ValidatorConfig = DEFAULT_VALIDATOR_CONFIG): boolean =>
+  config.applied.e2eRoots.some(root => filename.startsWith(root));
+
+/**
+ * Check whether the rules apply to a file at all
+ * @param file The file entry from the PR
+ * @param config The rules and settings to validate with
+ * @returns boolean indicating if the file should be validated
+ */
+export const isValidatableFile = (file: PrFile, config: ValidatorConfig = DEFAULT_VALIDATOR_CONFIG): boolean =>
+  // Only process files with content (skip binary files or removed files),
+  // and only run checks on files under the e2e roots
+  Boolean(file.patch) && getSkippedStatus(file, config) === undefined;
+
+/**
+ * Tell why the rules don't run on a file of the PR, if they don't
+ * @param file The file entry from the PR
+ * @param config The rules and settings to validate with
+ * @returns The skipped status, or undefined if the file is validated
+ */
+export const getSkippedStatus = (file: PrFile, config: ValidatorConfig = DEFAULT_VALIDATOR_CONFIG): FileStatus | undefined => {
+  if (file.status === 'removed') return 'skipped-removed';
+  if (!isE2eFile(file.filename, config)) return 'skipped-not-e2e';
+  // Renamed files without changes have no patch, and nothing added to check either
+  if (file.patch || (file.status === 'renamed' && !file.additions && !file.deletions)) return undefined;
+  
+  // GitHub leaves the patch out of binary files, which have no line changes, and of very large diffs
+  return file.additions || file.deletions ? 'skipped-too-large' : 'skipped-binary';
+};
+
+/**
+ * Get the status of a file the rules ran on
+ * @param issues The issues found in the file
+ * @returns The validated status
+ */
+export const getValidatedStatus = (issues: Issue[]): FileStatus =>
+  issues.length > 0 ? 'validated-with-issues' : 'validated-clean';
+
+/**
+ * Describe what the validation did with a file
+ * @param file The file entry from the PR
+ * @param status The status of the file
+ * @returns The file report
+ */
+export const toFileReport = (file: PrFile, status: FileStatus): FileReport => ({
+  filename: file.filename,
+  status,
+  changeStatus: file.status,
+  additions: file.additions ?? 0,
+  deletions: file.deletions ?? 0
+});
+
+/**
+ * Estimate which lines of the head revision of a file were added, without a patch.
+ * Each head line is matched with an identical base line when one is left, so moved lines
+ * count as existing code; this is cheap enough for files too large for GitHub to diff.
+ * @param baseContent The base revision of the file, empty for new files
+ * @param headContent The head revision of the file
+ * @returns The 1-based head line numbers considered added
+ */
+export const estimateAddedLines = (baseContent: string, headContent: string): Set<number> => {
+  const remaining = new Map<string, number>();
+  for (const line of baseContent.split('\n')) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+  
+  const added = new Set<number>();
+  headContent.split('\n').forEach((line, index) => {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      added.add(index + 1);
+    }
+  });
+  
+  return added;
+};
+
+/**
+ * Keep only the findings on code added in the PR
+ * @param fileIssues The findings of a file
+ * @returns The findings on added code
+ */
+export const keepAddedIssues = ({ issues, suppressed }: FileIssues): FileIssues => ({
+  issues: issues.filter(issue => issue.origin === 'added'),
+  suppressed: suppressed.filter(issue => issue.origin === 'added')
+});
+
+/**
+ * Run every registered rule against a file from the PR.
+ * When the full content of the file is given, the rules run on the whole file and findings outside
+ * the patch are reported as pre-existing; otherwise only code added in the patch hunks is reported.
+ * A file without patch can still be validated from its full content and added lines.
+ * Findings disabled by a suppression directive are set aside with its reason.
+ * @param file The file entry from the PR
+ * @param config The rules and settings to validate with
+ * @param sources Full content of the file and repository tree, when available
+ * @returns The issues found and the suppressed findings
+ */
+export const validateFileContent = (
+  file: PrFile,
+  config: ValidatorConfig = DEFAULT_VALIDATOR_CONFIG,
+  sources: FileSources = {}
+): FileIssues => {
+  const { content, addedLines, tree } = sources;
+  
+  if (!isValidatableFile(file, config) && !(isE2eFile(file.filename, config) && content !== undefined && addedLines)) {
+    return { issues: [], suppressed: [] };
+  }
+  
+  const patchSegments = file.patch ? getPatchSegments(file.patch) : [];
+  let segments: SourceSegment[] = patchSegments;
+  
+  if (content !== undefined) {
+    segments = [{
+      startLine: 1,
+      text: content,
+      addedLines: addedLines ?? new Set(patchSegments.flatMap(segment => [...segment.addedLines]))
+    }];
+  }
+  
+  const context: RuleContext = {
+    file,
+    analysis: analyzeSegments(file.filename, segments),
+    config: config.applied,
+    tree
+  };
+  
+  const fileIssues = applySuppressions(
+    context,
+    resolveConflictingFixes(context, config.rules, config.rules.flatMap(rule => rule.check(context)))
+  );
+  
+  // Severities can be changed by the repository config, so record the one that applied
+  const severities = new Map(config.rules.map(rule => [rule.id, rule.severity]));
+  for (const issue of [...fileIssues.issues, ...fileIssues.suppressed]) {
+    issue.severity = severities.get(issue.checkType);
+  }
+  
+  // Context lines in patch hunks are only partial code, so only report what the PR added
+  return content !== undefined ? fileIssues : keepAddedIssues(fileIssues);
+};
+
+/**
+ * Check whether a range lies within another
+ * @param inner The range that may be contained
+ * @param outer The range that may contain it
+ * @returns boolean indicating if inner starts and ends within outer
+ */
+const isWithinRange = (inner: SourceRange, outer: SourceRange): boolean =>
+  (inner.startLine > outer.startLine || (inner.startLine === outer.startLine && inner.startColumn >= outer.startColumn)) &&
+  (inner.endLine < outer.endLine || (inner.endLine === outer.endLine && inner.endColumn <= outer.endColumn));
+
+/**
+ * Run the rules that measure migration progress against the whole content of a file.
+ * Findings disabled by a suppression directive aren't counted as legacy, as they aren't reported
+ * as issues when the file is validated.
+ * @param filename Path of the file in the repository
+ * @param content The file content
+ * @param config The rules and settings to validate with
+ * @returns One measurement per rule implementing findTargets, and the totals of the file
+ */
+export const measureFileContent = (
+  filename: string,
+  content: string,
+  config: ValidatorConfig = DEFAULT_VALIDATOR_CONFIG
+): FileMeasurement => {
+  const context: RuleContext = {
+    file: { filename },
+    analysis: analyzeSegments(filename, [{ startLine: 1, text: content, addedLines: new Set() }]),
+    config: config.applied
+  };
+  
+  const rules = config.rules.filter(rule => rule.findTargets);
+  const { issues } = applySuppressions(context, rules.flatMap(rule => rule.check(context)));
+  
+  // Rules can target the same code, e.g. an import breaking two import rules, so key targets by range
+  const getRangeKey = (range: SourceRange) =>
+    `${range.startLine}:${range.startColumn}-${range.endLine}:${range.endColumn}`;
+  const targets = new Set<string>();
+  const legacy = new Set<string>();
+  
+  const measurements = rules.map(rule => {
+    const ruleIssues = issues.filter(issue => issue.checkType === rule.id);
+    const ruleTargets = rule.findTargets!(context);
+    const legacyTargets = ruleTargets.filter(target =>
+      ruleIssues.some(issue => issue.range && isWithinRange(issue.range, target))
+    );
+    
+    ruleTargets.forEach(target => targets.add(getRangeKey(target)));
+    legacyTargets.forEach(target => legacy.add(getRangeKey(target)));
+    
+    return { ruleId: rule.id, targets: ruleTargets.length, legacy: legacyTargets.length, issues: ruleIssues };
+  });
+  
+  return { rules: measurements, targets: targets.size, legacy: legacy.size };
+};
@@ -0,0 +1,51 @@
+import { toIssue } from './helpers';
+import type { Rule } from './types';
+
+// Valid return types for getter methods
+export const VALID_GETTER_TYPES = [
+  'DetoxElement', 
+  'TappableElement', 
+  'TypableElement', 
+  'WebElement', 
+  'IndexableNativeElement', 
+  'NativeElement', 
+  'SystemElement', 
+  'DeviceLaunchAppConfig', 
+  'DetoxMatcher'
+];
+
+/**
+ * Check if a type is valid, either directly or as Promise<ValidType>
+ * @param typeName The type name to check
+ * @param validTypes The accepted types
+ * @returns boolean indicating if the type is valid
+ */
+export const isValidGetterType = (typeName: string, validTypes: string[] = VALID_GETTER_TYPES): boolean => {
+  // Check for direct match
+  if (validTypes.includes(typeName)) {
+    return true;
+  }
+  
+  // Check for Promise<ValidType>
+  const promiseRegex = /^Promise<([A-Za-z0-9_]+)>$/;
+  const match = typeName.match(promiseRegex);
+  if (match && validTypes.includes(match[1])) {
+    return true;
+  }
+  
+  return false;
+};
+
+const getterType: Rule<'getter-type'> = {
+  id: 'getter-type',
+  title: 'Getter Method Types',
+  summary: 'Getter methods must have a valid return type',
+  description: `Getter methods must have a return type annotation. Valid types include ${VALID_GETTER_TYPES.join(', ')}, or Promise versions of these types.`,
+  severity: 'error',
+  check: (context) => context.analysis.getters
+    .filter(getter => !(getter.returnType && isValidGetterType(getter.returnType, context.config.validGetterTypes)))
+    .map(getter => toIssue(context, 'getter-type', getter)),
+  findTargets: (context) => context.analysis.getters.map(({ range }) => range)
+};
+
+export default getterType;
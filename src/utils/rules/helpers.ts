@@ -0,0 +1,138 @@
+import type { CheckType, Issue, SourceRange, SuggestedFix } from '../types';
+import type { ImportInfo } from './analyzer';
+import type { Rule, RuleContext } from './types';
+
+/**
+ * A piece of analyzed code a rule can report on
+ */
+interface Finding {
+  text: string;
+  range: SourceRange;
+  added: boolean;
+}
+
+/**
+ * Build an issue for a finding in the file being checked
+ * @param context The rule context
+ * @param checkType The check type to report
+ * @param finding The offending code
+ * @param message Details about the finding
+ * @returns The issue
+ */
+export const toIssue = (context: RuleContext, checkType: CheckType, finding: Finding, message?: string): Issue => ({
+  file: context.file.filename,
+  line: finding.range.startLine,
+  range: finding.range,
+  importStatement: finding.text,
+  checkType,
+  ...(message && { message }),
+  origin: finding.added ? 'added' : 'pre-existing'
+});
+
+/**
+ * Get the last path segment of a module specifier without its extension
+ * @param moduleSpecifier The module specifier
+ * @returns The module base name
+ */
+export const getModuleBaseName = (moduleSpecifier: string): string => {
+  const baseName = moduleSpecifier.split('/').pop() || '';
+  return baseName.replace(/\.(ts|tsx|js|jsx)$/, '');
+};
+
+/**
+ * Check whether an import brings in one of the given symbols, either by name or by module
+ * @param info The import
+ * @param symbols Imported names or module base names to look for
+ * @returns boolean indicating if the import matches
+ */
+export const importsAny = (info: ImportInfo, symbols: string[]): boolean =>
+  info.names.some(name => symbols.includes(name)) ||
+  symbols.includes(getModuleBaseName(info.moduleSpecifier));
+
+/**
+ * Build a fix rewriting the module path of an import
+ * @param info The import
+ * @param modulePath The new module path
+ * @returns The suggested fix
+ */
+export const createModulePathFix = (info: ImportInfo, modulePath: string): SuggestedFix => {
+  // The module path is the last string in the statement
+  const index = info.text.lastIndexOf(info.moduleSpecifier);
+  
+  return {
+    range: info.moduleSpecifierRange,
+    replacement: modulePath,
+    preview: `${info.text.substring(0, index)}${modulePath}${info.text.substring(index + info.moduleSpecifier.length)}`
+  };
+};
+
+/**
+ * Report every import that matches a predicate
+ * @param context The rule context
+ * @param checkType The check type to report
+ * @param predicate Decides whether an import should be flagged
+ * @param getFix Computes the fix for a flagged import, if there is one
+ * @returns Array of issues found
+ */
+export const findImportIssues = (
+  context: RuleContext,
+  checkType: CheckType,
+  predicate: (info: ImportInfo) => boolean,
+  getFix?: (info: ImportInfo) => SuggestedFix | undefined
+): Issue[] =>
+  context.analysis.imports
+    .filter(predicate)
+    .map(info => {
+      const issue = toIssue(context, checkType, info);
+      const suggestedFix = getFix?.(info);
+      return suggestedFix ? { ...issue, suggestedFix } : issue;
+    });
+
+/**
+ * Tell whether two ranges cover the same code
+ * @param a A range
+ * @param b Another range
+ * @returns True if both ranges start and end at the same positions
+ */
+export const isSameRange = (a: SourceRange, b: SourceRange): boolean =>
+  a.startLine === b.startLine && a.startColumn === b.startColumn &&
+  a.endLine === b.endLine && a.endColumn === b.endColumn;
+
+/**
+ * Settle the fixes that rules disagree on. An import can break several rules at once, and each
+ * rewrites the whole module specifier: the fix every rule reporting the code accepts is suggested
+ * for all of their issues, e.g. a required framework path without the forbidden extension over
+ * the mere removal of the extension. When no fix satisfies them all, none is suggested.
+ * @param context The rule context
+ * @param rules The rules that checked the file
+ * @param issues The issues of the file
+ * @returns The issues, with one fix per code range
+ */
+export const resolveConflictingFixes = (context: RuleContext, rules: Rule[], issues: Issue[]): Issue[] => {
+  const getRangeKey = ({ range }: SuggestedFix) =>
+    `${range.startLine}:${range.startColumn}-${range.endLine}:${range.endColumn}`;
+  
+  const groups = new Map<string, Issue[]>();
+  for (const issue of issues) {
+    if (issue.suggestedFix) {
+      const key = getRangeKey(issue.suggestedFix);
+      groups.set(key, [...(groups.get(key) ?? []), issue]);
+    }
+  }
+  
+  const resolved = new Map<string, SuggestedFix | undefined>();
+  for (const [key, group] of groups) {
+    const fixes = group.map(issue => issue.suggestedFix!);
+    const accepted = fixes.find(fix => group.every(issue => {
+      const rule = rules.find(({ id }) => id === issue.checkType);
+      return rule?.acceptsFix
+        ? rule.acceptsFix(context, fix)
+        : issue.suggestedFix!.replacement === fix.replacement;
+    }));
+    resolved.set(key, accepted);
+  }
+  
+  return issues.map(issue =>
+    issue.suggestedFix ? { ...issue, suggestedFix: resolved.get(getRangeKey(issue.suggestedFix)) } : issue
+  );
+};
@@ -0,0 +1,70 @@
+import { posix } from 'path';
+import { toIssue } from './helpers';
+import type { RepoTree, Rule } from './types';
+
+// Suffixes tried, in order, when resolving a relative module path to a file
+const RESOLUTION_SUFFIXES = [
+  '',
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.json',
+  '/index.ts',
+  '/index.tsx',
+  '/index.js',
+  '/index.jsx'
+];
+
+/**
+ * Resolve a relative module path imported from a file against the repository tree
+ * @param importer Path of the importing file
+ * @param moduleSpecifier The relative module path
+ * @param tree Every file path in the repository
+ * @returns The resolved file path or undefined if it points nowhere
+ */
+export const resolveRelativeImport = (importer: string, moduleSpecifier: string, tree: RepoTree): string | undefined => {
+  const basePath = posix.normalize(posix.join(posix.dirname(importer), moduleSpecifier));
+  
+  return RESOLUTION_SUFFIXES
+    .map(suffix => `${basePath}${suffix}`)
+    .find(candidate => tree.has(candidate));
+};
+
+const importResolution: Rule<'import-resolution'> = {
+  id: 'import-resolution',
+  title: 'Resolvable Framework Imports',
+  summary: 'Relative imports must resolve to an existing file',
+  description: 'Relative imports are resolved against the repository tree at the PR head. An import must point to an existing file, and an import through a /framework path must resolve to a module inside the e2e framework directory rather than to a legacy module.',
+  severity: 'error',
+  check: (context) => {
+    const { tree } = context;
+    
+    // Resolution needs the repository tree
+    if (!tree) {
+      return [];
+    }
+    
+    const frameworkRoots = context.config.e2eRoots.map(root => posix.join(root, 'framework/'));
+    
+    return context.analysis.imports.flatMap(info => {
+      if (!info.moduleSpecifier.startsWith('.')) {
+        return [];
+      }
+      
+      const resolved = resolveRelativeImport(context.file.filename, info.moduleSpecifier, tree);
+      
+      if (!resolved) {
+        return [toIssue(context, 'import-resolution', info, `'${info.moduleSpecifier}' does not resolve to any file in the repository`)];
+      }
+      
+      if (info.moduleSpecifier.includes('/framework') && !frameworkRoots.some(root => resolved.startsWith(root))) {
+        return [toIssue(context, 'import-resolution', info, `'${info.moduleSpecifier}' resolves to ${resolved}, not to a module under ${frameworkRoots.join(' or ')}`)];
+      }
+      
+      return [];
+    });
+  }
+};
+
+export default importResolution;
@@ -0,0 +1,92 @@
+import { posix } from 'path';
+import type { SuggestedFix } from '../types';
+import type { ImportInfo } from './analyzer';
+import type { ImportRuleConfig } from './config';
+import { createModulePathFix, findImportIssues, getModuleBaseName, importsAny, isSameRange } from './helpers';
+import type { Rule, RuleContext } from './types';
+
+/**
+ * Create a rule from its declarative import config
+ * @param config The import rule config
+ * @returns The rule
+ */
+export const createImportRule = (config: ImportRuleConfig): Rule => {
+  const requiredPath = config.requiredPath !== undefined ? new RegExp(config.requiredPath) : undefined;
+  const forbiddenPatterns = (config.forbiddenPatterns ?? []).map(pattern => new RegExp(pattern));
+  
+  /**
+   * Pick the module an offending import should point to, relative to the e2e root
+   * @param info The import
+   * @returns The target module or undefined if there is none or it is ambiguous
+   */
+  const getTargetModule = (info: ImportInfo): string | undefined => {
+    const modulePath = config.fix?.modulePath;
+    
+    if (modulePath === undefined || typeof modulePath === 'string') {
+      return modulePath;
+    }
+    
+    const targets = new Set(
+      [...info.names, getModuleBaseName(info.moduleSpecifier)]
+        .filter(symbol => modulePath[symbol] !== undefined)
+        .map(symbol => modulePath[symbol])
+    );
+    
+    return targets.size === 1 ? [...targets][0] : undefined;
+  };
+  
+  /**
+   * Compute the fix for an offending import
+   * @param context The rule context
+   * @param info The import
+   * @returns The suggested fix or undefined if the rule has no mechanical fix for it
+   */
+  const getFix = (context: RuleContext, info: ImportInfo): SuggestedFix | undefined => {
+    const targetModule = getTargetModule(info);
+    
+    if (targetModule !== undefined) {
+      const filename = context.file.filename;
+      const root = context.config.e2eRoots.find(e2eRoot => filename.startsWith(e2eRoot));
+      if (!root) {
+        return undefined;
+      }
+      
+      const relativePath = posix.relative(posix.dirname(filename), posix.join(root, targetModule));
+      return createModulePathFix(info, relativePath.startsWith('.') ? relativePath : `./${relativePath}`);
+    }
+    
+    if (config.fix?.removeForbidden) {
+      const modulePath = forbiddenPatterns.reduce((path, pattern) => path.replace(pattern, ''), info.moduleSpecifier);
+      return createModulePathFix(info, modulePath);
+    }
+    
+    return undefined;
+  };
+  
+  /**
+   * Tell whether an import breaks the rule
+   * @param info The import
+   * @returns True if the rule reports the import
+   */
+  const isFlagged = (info: ImportInfo): boolean =>
+    importsAny(info, config.symbols) && (
+      (requiredPath !== undefined && !requiredPath.test(info.moduleSpecifier)) ||
+      forbiddenPatterns.some(pattern => pattern.test(info.moduleSpecifier))
+    );
+  
+  return {
+    id: config.id,
+    title: config.title ?? config.message,
+    summary: config.message,
+    description: config.description ?? config.message,
+    severity: config.severity ?? 'error',
+    check: (context) => findImportIssues(context, config.id, isFlagged, info => getFix(context, info)),
+    acceptsFix: (context, fix) => {
+      const info = context.analysis.imports.find(({ moduleSpecifierRange }) => isSameRange(moduleSpecifierRange, fix.range));
+      return !info || !isFlagged({ ...info, moduleSpecifier: fix.replacement });
+    },
+    findTargets: (context) => context.analysis.imports
+      .filter(info => importsAny(info, config.symbols))
+      .map(({ range }) => range)
+  };
+};
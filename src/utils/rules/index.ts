@@ -0,0 +1,118 @@
+import { applyRuleSettings } from '../severity';
+import type { RepoConfig } from '../types';
+import { loadMigrationConfig } from './config';
+import getterType, { VALID_GETTER_TYPES } from './getterType';
+import { createImportRule } from './importRule';
+import importResolution from './importResolution';
+import { parseRepoConfig, REPO_CONFIG_PATH } from './repoConfig';
+import suppressionDirective from './suppressionDirective';
+import testWithFixtures from './testWithFixtures';
+import type { Rule, RuleInfo, ValidatorConfig } from './types';
+
+export type { RepoTree, Rule, RuleContext, RuleInfo, Severity, ValidatorConfig } from './types';
+
+// Loaded once when the server starts
+export const MIGRATION_CONFIG = loadMigrationConfig();
+
+// Directories validated when the repository doesn't configure its own
+export const DEFAULT_E2E_ROOTS = ['e2e/'];
+
+// Rules implemented in code rather than declared in the migration config
+const CODE_RULES: Rule[] = [
+  importResolution,
+  getterType,
+  testWithFixtures,
+  suppressionDirective
+];
+
+// The rule registry. Both validation routes and the UI are driven from this list:
+// import path rules come from the migration config, the others from their own module.
+export const RULES: Rule[] = [
+  ...MIGRATION_CONFIG.imports.map(createImportRule),
+  ...CODE_RULES
+];
+
+/**
+ * Look up a rule by its id
+ * @param id The rule id
+ * @returns The rule or undefined if no rule has that id
+ */
+export const getRule = (id: string) => RULES.find(rule => rule.id === id);
+
+/**
+ * Get the description of rules, without their check function
+ * @param rules The rules, every built-in rule by default
+ * @returns Array of rule descriptions
+ */
+export const getRuleInfos = (rules: Rule[] = RULES): RuleInfo[] =>
+  rules.map(({ id, title, summary, description, severity }) => ({ id, title, summary, description, severity }));
+
+/**
+ * Merge a repository config over the built-in defaults
+ * @param repoConfig The repository config, if the repository has one
+ * @param source Where the repository config was read from
+ * @returns The rules and settings to validate with
+ */
+export const resolveValidatorConfig = (repoConfig: RepoConfig = {}, source: string | null = null): ValidatorConfig => {
+  const disabledRules = repoConfig.disabledRules ?? [];
+  const pathOverrides = repoConfig.pathOverrides ?? {};
+  const severities = repoConfig.severities ?? {};
+  
+  for (const id of disabledRules) {
+    if (!getRule(id)) {
+      throw new Error(`Invalid ${REPO_CONFIG_PATH}: cannot disable unknown rule "${id}"`);
+    }
+  }
+  
+  for (const id of Object.keys(pathOverrides)) {
+    if (!MIGRATION_CONFIG.imports.some(rule => rule.id === id)) {
+      throw new Error(`Invalid ${REPO_CONFIG_PATH}: cannot override paths of "${id}", which is not an import rule`);
+    }
+  }
+  
+  for (const id of Object.keys(severities)) {
+    if (!getRule(id)) {
+      throw new Error(`Invalid ${REPO_CONFIG_PATH}: cannot set the severity of unknown rule "${id}"`);
+    }
+  }
+  
+  const importRules = MIGRATION_CONFIG.imports.map(rule => createImportRule({ ...rule, ...pathOverrides[rule.id] }));
+  
+  return {
+    applied: {
+      source,
+      e2eRoots: repoConfig.e2eRoots ?? DEFAULT_E2E_ROOTS,
+      validGetterTypes: [...VALID_GETTER_TYPES, ...(repoConfig.validGetterTypes ?? [])],
+      disabledRules,
+      pathOverrides,
+      severities,
+      failOn: repoConfig.failOn ?? 'error'
+    },
+    rules: applyRuleSettings([...importRules, ...CODE_RULES], { disabledRules, severities })
+  };
+};
+
+// The rules and settings used when the repository has no config of its own
+export const DEFAULT_VALIDATOR_CONFIG = resolveValidatorConfig();
+
+/**
+ * Parse the raw contents of a repository config and merge it over the built-in defaults
+ * @param raw The contents of the repository config file, or undefined if the repository has none
+ * @param source Where the repository config was read from
+ * @returns The rules and settings to validate with
+ */
+export const loadRepoValidatorConfig = (raw: string | undefined, source: string): ValidatorConfig => {
+  // No repository config, use the built-in defaults
+  if (raw === undefined) {
+    return DEFAULT_VALIDATOR_CONFIG;
+  }
+  
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Invalid ${REPO_CONFIG_PATH}: ${error.message}`);
+  }
+  
+  return resolveValidatorConfig(parseRepoConfig(parsed), source);
+};
@@ -0,0 +1,85 @@
+import type { RepoConfig } from '../types';
+import { SEVERITIES } from '../severity';
+
+// Location of the per-repository config, relative to the repository root
+export const REPO_CONFIG_PATH = '.migration-validator.json';
+
+/**
+ * Check that a value is an array of strings
+ * @param value The value to check
+ * @returns boolean indicating if the value is a string array
+ */
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Check that a value is a plain object
+ * @param value The value to check
+ * @returns boolean indicating if the value is a non-null, non-array object
+ */
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a raw repository config
+ * @param raw The parsed JSON
+ * @returns The repository config
+ */
+export const parseRepoConfig = (raw: unknown): RepoConfig => {
+  if (!isObject(raw)) {
+    throw new Error(`Invalid ${REPO_CONFIG_PATH}: expected an object`);
+  }
+  
+  const config = raw as RepoConfig;
+  
+  for (const key of ['e2eRoots', 'validGetterTypes', 'disabledRules'] as const) {
+    if (config[key] !== undefined && !isStringArray(config[key])) {
+      throw new Error(`Invalid ${REPO_CONFIG_PATH}: "${key}" must be an array of strings`);
+    }
+  }
+  
+  if (config.pathOverrides !== undefined) {
+    if (!isObject(config.pathOverrides)) {
+      throw new Error(`Invalid ${REPO_CONFIG_PATH}: "pathOverrides" must be an object`);
+    }
+    
+    for (const [id, override] of Object.entries(config.pathOverrides)) {
+      if (!isObject(override)) {
+        throw new Error(`Invalid ${REPO_CONFIG_PATH}: "pathOverrides.${id}" must be an object`);
+      }
+      if (override.requiredPath !== undefined && typeof override.requiredPath !== 'string') {
+        throw new Error(`Invalid ${REPO_CONFIG_PATH}: "pathOverrides.${id}.requiredPath" must be a string`);
+      }
+      if (override.forbiddenPatterns !== undefined && !isStringArray(override.forbiddenPatterns)) {
+        throw new Error(`Invalid ${REPO_CONFIG_PATH}: "pathOverrides.${id}.forbiddenPatterns" must be an array of strings`);
+      }
+      
+      // Make sure every pattern compiles
+      for (const pattern of [override.requiredPath ?? '', ...(override.forbiddenPatterns ?? [])]) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          throw new Error(`Invalid ${REPO_CONFIG_PATH}: "pathOverrides.${id}" has an invalid pattern "${pattern}"`);
+        }
+      }
+    }
+  }
+  
+  if (config.severities !== undefined) {
+    if (!isObject(config.severities)) {
+      throw new Error(`Invalid ${REPO_CONFIG_PATH}: "severities" must be an object`);
+    }
+    
+    for (const [id, severity] of Object.entries(config.severities)) {
+      if (!SEVERITIES.includes(severity)) {
+        throw new Error(`Invalid ${REPO_CONFIG_PATH}: "severities.${id}" must be one of ${SEVERITIES.join(', ')}`);
+      }
+    }
+  }
+  
+  if (config.failOn !== undefined && !SEVERITIES.includes(config.failOn)) {
+    throw new Error(`Invalid ${REPO_CONFIG_PATH}: "failOn" must be one of ${SEVERITIES.join(', ')}`);
+  }
+  
+  return config;
+};
@@ -0,0 +1,73 @@
+import type { Issue } from '../types';
+import type { SuppressionDirective } from './analyzer';
+import { toIssue } from './helpers';
+import type { Rule, RuleContext } from './types';
+
+export const SUPPRESSION_RULE_ID = 'suppression-directive';
+
+/**
+ * Findings of a file, split between the ones reported and the ones a directive disabled
+ */
+export interface FileIssues {
+  issues: Issue[];
+  suppressed: Issue[];
+}
+
+/**
+ * Check whether a directive disables a finding
+ * @param directive The suppression directive
+ * @param issue The finding
+ * @returns boolean indicating if the directive applies to the finding
+ */
+const suppresses = (directive: SuppressionDirective, issue: Issue): boolean =>
+  (directive.ruleIds.length === 0 || directive.ruleIds.includes(issue.checkType)) &&
+  (directive.scope === 'file' || Number(issue.line) === directive.range.startLine + 1);
+
+/**
+ * Set aside the findings disabled by the justified directives of a file, and flag the directives
+ * that disable nothing
+ * @param context The rule context
+ * @param issues The findings of every rule
+ * @returns The reported and suppressed findings
+ */
+export const applySuppressions = (context: RuleContext, issues: Issue[]): FileIssues => {
+  // Directives without a reason are flagged by the rule and don't disable anything
+  const directives = context.analysis.directives.filter(directive => directive.reason);
+  const used = new Set<SuppressionDirective>();
+  const reported: Issue[] = [];
+  const suppressed: Issue[] = [];
+  
+  for (const issue of issues) {
+    const directive = issue.checkType !== SUPPRESSION_RULE_ID
+      ? directives.find(candidate => suppresses(candidate, issue))
+      : undefined;
+    
+    if (directive) {
+      used.add(directive);
+      suppressed.push({ ...issue, suppression: { line: directive.range.startLine, reason: directive.reason! } });
+    } else {
+      reported.push(issue);
+    }
+  }
+  
+  if (!context.config.disabledRules.includes(SUPPRESSION_RULE_ID)) {
+    reported.push(...directives
+      .filter(directive => !used.has(directive))
+      .map(directive => toIssue(context, SUPPRESSION_RULE_ID, directive, 'This directive matches no finding, remove it')));
+  }
+  
+  return { issues: reported, suppressed };
+};
+
+const suppressionDirective: Rule<typeof SUPPRESSION_RULE_ID> = {
+  id: SUPPRESSION_RULE_ID,
+  title: 'Suppression Directives',
+  summary: 'Suppression comments must give a reason and match a finding',
+  description: 'Findings can be disabled with a "// migration-validator-disable-next-line <rule-id> -- <reason>" comment on the line above, or a "// migration-validator-disable-file <rule-id> -- <reason>" comment anywhere in the file. Without rule ids, every rule is disabled. Directives without a reason after "--" are ignored, and directives that disable nothing must be removed.',
+  severity: 'warning',
+  check: (context) => context.analysis.directives
+    .filter(directive => !directive.reason)
+    .map(directive => toIssue(context, SUPPRESSION_RULE_ID, directive, 'This directive gives no reason after "--", so it is ignored'))
+};
+
+export default suppressionDirective;
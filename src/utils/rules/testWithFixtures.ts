@@ -0,0 +1,32 @@
+import { toIssue } from './helpers';
+import type { Rule } from './types';
+
+const testWithFixtures: Rule<'test-withfixtures'> = {
+  id: 'test-withfixtures',
+  title: 'Test Files with withFixtures',
+  summary: 'Test files must use withFixtures in each it() block',
+  description: 'Every test file (ending in .spec.ts) must use withFixtures inside each it() block. This ensures that all tests are using the fixtures framework correctly.',
+  severity: 'error',
+  check: (context) => {
+    if (!context.file.filename.endsWith('.spec.ts')) {
+      return [];
+    }
+    
+    return context.analysis.testBlocks
+      .filter(block => !block.hasWithFixtures)
+      .map(block => toIssue(context, 'test-withfixtures', block));
+  },
+  // A spec file is migrated once all of its tests are, so its tests make a single target
+  findTargets: (context) => {
+    const blocks = context.analysis.testBlocks;
+    if (!context.file.filename.endsWith('.spec.ts') || blocks.length === 0) {
+      return [];
+    }
+    
+    const first = blocks[0].range;
+    const last = blocks[blocks.length - 1].range;
+    return [{ startLine: first.startLine, startColumn: first.startColumn, endLine: last.endLine, endColumn: last.endColumn }];
+  }
+};
+
+export default testWithFixtures;
@@ -0,0 +1,47 @@
+import type { AppliedConfig, Issue, PrFile, Severity, SourceRange, SuggestedFix } from '../types';
+import type { FileAnalysis } from './analyzer';
+
+export type { Severity };
+
+// Paths of every file in a repository revision
+export type RepoTree = Set<string>;
+
+/**
+ * Everything a rule needs to know about the file being checked
+ */
+export interface RuleContext {
+  file: PrFile;
+  // Imports, getters and test blocks parsed from the head revision of the file
+  analysis: FileAnalysis;
+  config: AppliedConfig;
+  // Every file path in the repository at the head commit, when it could be loaded
+  tree?: RepoTree;
+}
+
+export interface Rule<Id extends string = string> {
+  id: Id;
+  title: string;
+  // Short one-line description used in result summaries
+  summary: string;
+  // Long description shown in the validation rules panel
+  description: string;
+  severity: Severity;
+  check: (context: RuleContext) => Issue[];
+  // Tell whether the rule would still report the code a fix replaces once the fix is applied. Used to
+  // pick one fix when several rules fix the same code differently; rules without it only accept their own.
+  acceptsFix?: (context: RuleContext, fix: SuggestedFix) => boolean;
+  // Locate the code the rule applies to, whether it passes or not, each issue of the rule lying within
+  // one of them. Only rules that implement it are part of the repository migration progress scan.
+  findTargets?: (context: RuleContext) => SourceRange[];
+}
+
+// A rule as exposed to the UI, without its functions
+export type RuleInfo = Omit<Rule, 'check' | 'acceptsFix' | 'findTargets'>;
+
+/**
+ * The built-in rules merged with a repository config
+ */
+export interface ValidatorConfig {
+  applied: AppliedConfig;
+  rules: Rule[];
+}
@@ -0,0 +1,68 @@
+import type { RuleInfo } from './rules/types';
+import type { AppliedConfig, Issue, IssueCounts, Severity } from './types';
+
+// Pure helpers shared by the server and the browser, which can't load the rule registry
+
+// From the most to the least severe
+export const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+/**
+ * Check whether a severity fails a validation
+ * @param severity The severity of an issue
+ * @param failOn The lowest severity that fails the validation
+ * @returns boolean indicating if an issue of that severity fails the validation
+ */
+export const isBlockingSeverity = (severity: Severity, failOn: Severity = 'error'): boolean =>
+  SEVERITIES.indexOf(severity) <= SEVERITIES.indexOf(failOn);
+
+/**
+ * Describe the issue counts per severity
+ * @param counts The issue counts
+ * @returns e.g. "2 error(s), 1 warning(s)"
+ */
+export const formatSeverityCounts = (counts: IssueCounts): string =>
+  SEVERITIES
+    .filter(severity => counts.bySeverity[severity] > 0)
+    .map(severity => `${counts.bySeverity[severity]} ${severity}${severity === 'info' ? '' : '(s)'}`)
+    .join(', ');
+
+/**
+ * Apply the disabled rules and severity overrides of a config to rules
+ * @param rules The built-in rules, or their descriptions
+ * @param config The settings a validation ran with; results recorded before severities were
+ * configurable have none
+ * @returns The rules the validation ran with
+ */
+export const applyRuleSettings = <R extends RuleInfo>(
+  rules: R[],
+  config: Pick<AppliedConfig, 'disabledRules'> & Partial<Pick<AppliedConfig, 'severities'>>
+): R[] => rules
+  .filter(rule => !config.disabledRules.includes(rule.id))
+  .map(rule => config.severities?.[rule.id] ? { ...rule, severity: config.severities[rule.id] } : rule);
+
+/**
+ * Get the severity of an issue
+ * @param issue The issue
+ * @param rules The rules describing the issues
+ * @returns The severity set on the issue, or the severity of its rule for results recorded
+ * before issues carried one
+ */
+export const getIssueSeverity = (issue: Issue, rules: RuleInfo[]): Severity =>
+  issue.severity ?? rules.find(rule => rule.id === issue.checkType)?.severity ?? 'error';
+
+/**
+ * Count issues per severity and per rule id
+ * @param issues The issues
+ * @param rules The rules describing the issues
+ * @returns The counts
+ */
+export const countIssues = (issues: Issue[], rules: RuleInfo[]): IssueCounts => {
+  const counts: IssueCounts = { bySeverity: { error: 0, warning: 0, info: 0 }, byRule: {} };
+  
+  for (const issue of issues) {
+    counts.bySeverity[getIssueSeverity(issue, rules)]++;
+    counts.byRule[issue.checkType] = (counts.byRule[issue.checkType] ?? 0) + 1;
+  }
+  
+  return counts;
+};
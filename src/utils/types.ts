@@ -0,0 +1,315 @@
+// Id of the rule that reported an issue
+export type CheckType = string;
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface PrInfo {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+}
+
+/**
+ * The subset of a `pulls.listFiles` entry that the rule engine consumes
+ */
+export interface PrFile {
+  filename: string;
+  status?: string;
+  sha?: string;
+  // Left out by GitHub for very large diffs
+  patch?: string;
+  // Path in the base revision of renamed files
+  previous_filename?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+/**
+ * Whether a finding sits on code added in the PR or on code that was already there
+ */
+export type IssueOrigin = 'added' | 'pre-existing';
+
+/**
+ * A 1-based line and column range in the head revision of a file. The end column is exclusive.
+ */
+export interface SourceRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * A mechanical fix for an issue
+ */
+export interface SuggestedFix {
+  // Range of the code to replace
+  range: SourceRange;
+  replacement: string;
+  // The offending statement with the fix applied
+  preview: string;
+}
+
+/**
+ * The comment directive that disabled a finding
+ */
+export interface Suppression {
+  // Line of the directive in the head revision
+  line: number;
+  reason: string;
+}
+
+/**
+ * A commit of the PR, shown next to the issues it introduced or resolved
+ */
+export interface IssueCommit {
+  sha: string;
+  // First line of the commit message
+  message: string;
+}
+
+export interface Issue {
+  file: string;
+  line: number | string;
+  range?: SourceRange;
+  importStatement: string;
+  checkType: CheckType;
+  // Severity of the rule that reported the issue, as configured for the repository
+  severity?: Severity;
+  // Details about this particular finding, when the rule summary isn't enough
+  message?: string;
+  origin?: IssueOrigin;
+  suggestedFix?: SuggestedFix;
+  // Commit of the PR that added the offending code, when its commits were walked
+  introducedBy?: IssueCommit;
+  // Commit of the PR that deleted the offending code, for issues resolved during the PR
+  resolvedBy?: IssueCommit;
+  // Directive that disabled the finding, for suppressed issues
+  suppression?: Suppression;
+}
+
+export interface PrSummary {
+  title: string;
+  url: string;
+  author: string;
+  headSha: string;
+}
+
+// Refs validated instead of a PR, described by the PR summary of the result
+export interface RefSummary {
+  repo: string;
+  // Base ref of a comparison, or parent SHA of a single commit
+  base: string;
+  // Merge base of a comparison, or parent of a single commit
+  baseSha: string;
+  head: string;
+  commits: number;
+}
+
+export interface ValidationOptions {
+  // Run the rules on the whole head revision of each file instead of only the patch hunks
+  fullFile?: boolean;
+}
+
+/**
+ * Overrides for the module path patterns of an import rule
+ */
+export interface PathOverride {
+  requiredPath?: string;
+  forbiddenPatterns?: string[];
+}
+
+/**
+ * Per-repository settings read from the root of the target repository
+ */
+export interface RepoConfig {
+  // Directory prefixes whose files are validated
+  e2eRoots?: string[];
+  // Getter return types accepted in addition to the built-in ones
+  validGetterTypes?: string[];
+  disabledRules?: string[];
+  // Path patterns replacing those of the import rule with the same id
+  pathOverrides?: Record<string, PathOverride>;
+  // Severity replacing the built-in one of the rule with the same id
+  severities?: Record<string, Severity>;
+  // Lowest severity that fails the validation, error by default
+  failOn?: Severity;
+}
+
+/**
+ * The settings a validation actually ran with
+ */
+export interface AppliedConfig {
+  // Repository config file and the commit it was read at, or null when only the built-in defaults apply
+  source: string | null;
+  e2eRoots: string[];
+  validGetterTypes: string[];
+  disabledRules: string[];
+  pathOverrides: Record<string, PathOverride>;
+  severities: Record<string, Severity>;
+  failOn: Severity;
+}
+
+/**
+ * A file of the PR the rules should have run on but couldn't
+ */
+export interface UncheckedFile {
+  filename: string;
+  reason: string;
+}
+
+// What the validation did with a file, and why the rules didn't run on it when they didn't
+export type FileStatus =
+  | 'validated-clean'
+  | 'validated-with-issues'
+  | 'skipped-not-e2e'
+  | 'skipped-binary'
+  | 'skipped-removed'
+  | 'skipped-too-large';
+
+export interface FileReport {
+  filename: string;
+  status: FileStatus;
+  // Change status reported by GitHub: added, modified, renamed, removed...
+  changeStatus?: string;
+  additions: number;
+  deletions: number;
+}
+
+export type Verdict = 'pass' | 'fail';
+
+/**
+ * Number of issues of a validation per severity and per rule id
+ */
+export interface IssueCounts {
+  bySeverity: Record<Severity, number>;
+  byRule: Record<string, number>;
+}
+
+export interface ValidationResult {
+  pr: PrSummary;
+  // Set when a ref comparison or a single commit was validated instead of a PR
+  ref?: RefSummary;
+  config: AppliedConfig;
+  issues: Issue[];
+  // Fail when an issue is at least as severe as config.failOn
+  verdict: Verdict;
+  counts: IssueCounts;
+  // Findings disabled by a suppression directive, not counted as issues
+  suppressedIssues: Issue[];
+  filesChecked: number;
+  checkedFiles: string[];
+  files: FileReport[];
+  uncheckedFiles: UncheckedFile[];
+  // Files changed by the PR beyond the 3000 GitHub lists, which couldn't be checked either
+  unlistedFiles?: number;
+  // Issues added by a commit of the PR and gone at its head, when its commits were walked
+  resolvedIssues?: Issue[];
+  // Id of the stored result, shared at /results/<id>
+  resultId?: string;
+}
+
+/**
+ * A validation result kept in the result store for its permalink
+ */
+export interface StoredValidationResult {
+  id: string;
+  // ISO 8601 times the result was stored at and is deleted after, null when results are kept forever
+  savedAt: string;
+  expiresAt: string | null;
+  result: ValidationResult;
+}
+
+/**
+ * Code a rule applies to in a scanned revision, and how much of it is not migrated yet
+ */
+export interface RuleProgress {
+  total: number;
+  legacy: number;
+}
+
+/**
+ * Migration progress of the files in one directory of a scanned revision
+ */
+export interface DirectoryProgress {
+  directory: string;
+  filesScanned: number;
+  total: number;
+  legacy: number;
+  percentMigrated: number;
+  // Progress per rule id
+  rules: Record<string, RuleProgress>;
+}
+
+export interface ScanResult {
+  // owner/repo
+  repo: string;
+  ref: string;
+  sha: string;
+  config: AppliedConfig;
+  filesScanned: number;
+  total: number;
+  legacy: number;
+  percentMigrated: number;
+  // Progress per rule id
+  rules: Record<string, RuleProgress>;
+  directories: DirectoryProgress[];
+  // Every finding still to migrate
+  offenders: Issue[];
+}
+
+export type HistoryKind = 'pr' | 'scan';
+
+/**
+ * Summary of a stored validation or scan result, as listed in the history index
+ */
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  // owner/repo
+  repo: string;
+  sha: string;
+  // ISO 8601 time the result was recorded at
+  timestamp: string;
+  // PR title or scanned ref
+  label: string;
+  url?: string;
+  // Issues, or legacy code for scans, per rule id
+  legacy: Record<string, number>;
+  total: number;
+}
+
+/**
+ * Open PRs of a repository to validate in a batch
+ */
+export interface BatchQuery {
+  // owner/repo
+  repo: string;
+  label?: string;
+  // Only PRs changing a file under this path, e.g. e2e/, whether or not that file has issues.
+  // It selects PRs, not files: every file of a selected PR is validated.
+  touching?: string;
+}
+
+/**
+ * Outcome of the validation of one PR of a batch
+ */
+export interface BatchPrResult {
+  prLink: string;
+  pr?: PrSummary;
+  filesChecked: number;
+  issueCount: number;
+  // Issues per rule id
+  issuesByRule: Record<string, number>;
+  verdict: Verdict | 'error';
+  error?: string;
+}
+
+export interface BatchReport {
+  results: BatchPrResult[];
+  passed: number;
+  failed: number;
+  errored: number;
+  // Issues per rule id across every PR
+  issuesByRule: Record<string, number>;
+}
@@ -0,0 +1,23 @@
+import { RULES, Severity } from './rules';
+import { countIssues, getIssueSeverity, isBlockingSeverity } from './severity';
+import type { AppliedConfig, Issue, ValidationResult, Verdict } from './types';
+
+/**
+ * Decide whether the issues of a validation fail it
+ * @param issues The issues
+ * @param failOn The lowest severity that fails the validation
+ * @returns The verdict
+ */
+export const getVerdict = (issues: Issue[], failOn: Severity = 'error'): Verdict =>
+  issues.some(issue => isBlockingSeverity(getIssueSeverity(issue, RULES), failOn)) ? 'fail' : 'pass';
+
+/**
+ * Summarize the issues of a validation
+ * @param issues The issues
+ * @param config The settings the validation ran with
+ * @returns The verdict and the issue counts of the validation result
+ */
+export const summarizeIssues = (issues: Issue[], config: AppliedConfig): Pick<ValidationResult, 'verdict' | 'counts'> => ({
+  verdict: getVerdict(issues, config.failOn),
+  counts: countIssues(issues, RULES)
+});
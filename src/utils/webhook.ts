@@ -0,0 +1,23 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Pull request actions that change the code under review
+export const VALIDATED_PR_ACTIONS = ['opened', 'synchronize', 'reopened'];
+
+/**
+ * Verify the X-Hub-Signature-256 header of a GitHub webhook delivery
+ * @param payload The raw request body
+ * @param signature The X-Hub-Signature-256 header value
+ * @param secret The webhook secret
+ * @returns Whether the payload was signed with the secret
+ */
+export const verifyWebhookSignature = (payload: string, signature: string | null, secret: string): boolean => {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+  
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`);
+  const actual = Buffer.from(signature);
+  
+  // timingSafeEqual throws on buffers of different lengths
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};